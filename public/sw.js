@@ -0,0 +1,115 @@
+// Service worker: offline support for venue demos with unreliable Wi-Fi.
+// Plain JS on purpose: it is copied verbatim from public/ and must not depend on the Vite bundle.
+//
+// Caches:
+// - portal-shell-<version>: index.html, bundled JS/CSS, scenes.json (network-first, falls back offline)
+// - portal-assets-v1:       door GLB + images (cache-first, filled on first use; the door is precached)
+// - portal-splats-v1:       splat files the user explicitly saved for offline (written by OfflineStore.ts)
+
+// The build (`swPrecache` in vite.config.ts) replaces the version with the build id and fills the two
+// precache lists with the hashed JS/CSS chunks (lazy ones included) and the door GLB. They are fetched on
+// install: the first visit loads them before this worker controls the page, so they would never reach a
+// cache otherwise. Dev builds keep the empty lists.
+const SHELL_VERSION = 'v1';
+const BUILD_SHELL_URLS = [];
+const BUILD_ASSET_URLS = [];
+const SHELL_CACHE = `portal-shell-${SHELL_VERSION}`;
+const ASSET_CACHE = 'portal-assets-v1';
+// Keep in sync with `OFFLINE_SPLAT_CACHE` in src/OfflineStore.ts.
+const SPLAT_CACHE = 'portal-splats-v1';
+
+const SHELL_URLS = ['./', './index.html', './scenes.json'];
+const SPLAT_PATH = /\.(spz|splat|ksplat|ply)$/i;
+const ASSET_PATH = /\.(glb|gltf|bin|png|jpe?g|webp|svg)$/i;
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        Promise.all([
+            caches.open(SHELL_CACHE).then((cache) => cache.addAll([...SHELL_URLS, ...BUILD_SHELL_URLS])),
+            precacheAssets(BUILD_ASSET_URLS),
+        ]).then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches
+            .keys()
+            .then((keys) =>
+                Promise.all(
+                    // Only old shells are dropped; saved splats and door assets survive app updates.
+                    keys.filter((key) => key.startsWith('portal-shell-') && key !== SHELL_CACHE).map((key) => caches.delete(key))
+                )
+            )
+            .then(() => self.clients.claim())
+    );
+});
+
+self.addEventListener('fetch', (event) => {
+    const request = event.request;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return;
+
+    if (SPLAT_PATH.test(url.pathname)) {
+        // Only serve what the user saved; never fill this cache implicitly (files are tens of MB).
+        event.respondWith(cacheOnlyIfPresent(SPLAT_CACHE, request));
+        return;
+    }
+    if (ASSET_PATH.test(url.pathname)) {
+        event.respondWith(cacheFirst(ASSET_CACHE, request));
+        return;
+    }
+    if (url.origin === self.location.origin) {
+        event.respondWith(networkFirst(SHELL_CACHE, request));
+    }
+});
+
+// Best effort: an unreachable asset host must not keep the app shell from installing.
+async function precacheAssets(urls) {
+    const cache = await caches.open(ASSET_CACHE);
+    await Promise.all(
+        urls.map(async (url) => {
+            if (await cache.match(url)) return;
+            await cache.add(url).catch(() => {});
+        })
+    );
+}
+
+async function cacheOnlyIfPresent(cacheName, request) {
+    const cache = await caches.open(cacheName);
+    const hit = await cache.match(request.url);
+    return hit || fetch(request);
+}
+
+async function cacheFirst(cacheName, request) {
+    const cache = await caches.open(cacheName);
+    const hit = await cache.match(request.url);
+    if (hit) return hit;
+
+    const response = await fetch(request);
+    // Cross-origin CSS backgrounds come back opaque; those are still worth keeping for offline use.
+    if (response.ok || response.type === 'opaque') {
+        cache.put(request.url, response.clone()).catch(() => {});
+    }
+    return response;
+}
+
+async function networkFirst(cacheName, request) {
+    const cache = await caches.open(cacheName);
+    try {
+        const response = await fetch(request);
+        if (response.ok) cache.put(request, response.clone()).catch(() => {});
+        return response;
+    } catch (err) {
+        // Debug query params (e.g. `?debugPortal=1`) must not defeat the offline shell.
+        const hit = (await cache.match(request)) || (await cache.match(request, { ignoreSearch: true }));
+        if (hit) return hit;
+        if (request.mode === 'navigate') {
+            const shell = await cache.match('./index.html');
+            if (shell) return shell;
+        }
+        throw err;
+    }
+}
@@ -0,0 +1,620 @@
+import * as THREE from 'three';
+import { getPortalOpening } from './PortalConfig';
+import type { ManagedPortal } from './PortalManager';
+import type { SceneActionBehaviour, SceneActionContext, SceneActionRegistry } from './SceneActions';
+import { ParticleEmitter } from './SceneParticles';
+import type { ParticleEmitterOptions } from './SceneParticles';
+
+// Behaviours for every action id in the bundled manifest (public/scenes.json). Everything is built in door
+// space (children of the portal group), so it follows the door and hides with it. Door space: y = 0 is the
+// floor, +z is in front of the door (where the user stands), -z is inside the world.
+
+const ORBIT_SPEED = THREE.MathUtils.degToRad(8); // rad/s
+
+const SNOWBALL_RADIUS = 0.05;
+const SNOWBALL_SPEED = 4; // m/s
+const SNOWBALL_LIFT = 1.5; // m/s upwards on release
+const SNOWBALL_LIFETIME = 4; // s
+const MAX_SNOWBALLS = 24;
+const GRAVITY = 9.81;
+
+const BULB_RADIUS = 0.018;
+const BULB_SPACING = 0.12;
+// Bulbs sit just outside the opening, slightly in front of the door plane.
+const BULB_INSET = 0.06;
+const BULB_DEPTH = 0.04;
+
+// Where floor effects (summon circle, launch pad) sit in front of the door (m).
+const FLOOR_EFFECT_DISTANCE = 0.9;
+const SCAN_PERIOD = 2.4; // s, bottom to top and back
+const CARPET_LENGTH = 2.5;
+const CARPET_ROLL_TIME = 1.5; // s
+const RING_RADIUS = 0.15;
+const ORNAMENT_RADIUS = 0.035;
+const MAX_ORNAMENTS = 40;
+const ORNAMENT_COLORS = [0xd62c2c, 0xf2c641, 0x2c7dd6, 0xe8e8e8, 0x9b3fd6, 0x2fae5b];
+
+export function registerBuiltinSceneActions(registry: SceneActionRegistry) {
+    registry.register('orbit', createOrbit);
+    registry.register('snowball', createSnowballs);
+    registry.register('lights', createLights);
+    registry.register('capture', createCaptureHint);
+    registry.register('summon', createSummon);
+    registry.register('dare', createDare);
+    registry.register('launch', createLaunch);
+    registry.register('wander', createFireflies);
+    registry.register('play', createSnowfall);
+    registry.register('scan', createScan);
+    registry.register('enter', createEnterGuide);
+    registry.register('kneel', createCarpet);
+    registry.register('claim', createGoldShower);
+    registry.register('vow', createPetals);
+    registry.register('ring', createRing);
+    registry.register('decorate', createOrnaments);
+}
+
+// The opening's edges in door space.
+interface OpeningFrame {
+    left: number;
+    right: number;
+    bottom: number;
+    top: number;
+    centerX: number;
+    width: number;
+}
+
+function openingFrame(entry: ManagedPortal): OpeningFrame {
+    const opening = getPortalOpening(entry.portal.getConfig().config);
+    return {
+        left: opening.offsetX - opening.w / 2,
+        right: opening.offsetX + opening.w / 2,
+        bottom: opening.bottomY,
+        top: opening.bottomY + opening.h,
+        centerX: opening.offsetX,
+        width: opening.w,
+    };
+}
+
+// Up the left side, across the top, down the right side; `inset` outside the opening, `depth` in front of it.
+function framePath(frame: OpeningFrame, inset: number, depth: number): THREE.Vector3[] {
+    const left = frame.left - inset;
+    const right = frame.right + inset;
+    const top = frame.top + inset;
+    return [
+        new THREE.Vector3(left, frame.bottom, depth),
+        new THREE.Vector3(left, top, depth),
+        new THREE.Vector3(right, top, depth),
+        new THREE.Vector3(right, frame.bottom, depth),
+    ];
+}
+
+function rand(min: number, max: number) {
+    return min + Math.random() * (max - min);
+}
+
+// The world slowly turns in place behind the door.
+function createOrbit({ entry }: SceneActionContext): SceneActionBehaviour {
+    const portal = entry.portal;
+    let yaw = 0;
+    return {
+        update(deltaSeconds) {
+            yaw = (yaw + ORBIT_SPEED * deltaSeconds) % (Math.PI * 2);
+            portal.setContentYaw(yaw);
+        },
+        dispose() {
+            portal.setContentYaw(0);
+        },
+    };
+}
+
+interface Snowball {
+    mesh: THREE.Mesh;
+    velocity: THREE.Vector3;
+    age: number;
+}
+
+// Tap to throw a snowball from where you stand; it arcs, bounces on the floor and melts away.
+function createSnowballs({ entry, getViewer }: SceneActionContext): SceneActionBehaviour {
+    const group = entry.portal.group;
+    const geometry = new THREE.SphereGeometry(SNOWBALL_RADIUS, 12, 8);
+    const material = new THREE.MeshStandardMaterial({ color: 0xffffff, roughness: 0.9 });
+    const balls: Snowball[] = [];
+    const direction = new THREE.Vector3();
+    const toLocal = new THREE.Quaternion();
+
+    const remove = (ball: Snowball) => {
+        group.remove(ball.mesh);
+        balls.splice(balls.indexOf(ball), 1);
+    };
+
+    return {
+        select() {
+            if (balls.length >= MAX_SNOWBALLS) remove(balls[0]);
+            const viewer = getViewer();
+            group.updateMatrixWorld();
+            group.getWorldQuaternion(toLocal).invert();
+            viewer.getWorldDirection(direction).applyQuaternion(toLocal);
+
+            const mesh = new THREE.Mesh(geometry, material);
+            group.worldToLocal(viewer.getWorldPosition(mesh.position));
+            mesh.position.addScaledVector(direction, 0.2);
+            group.add(mesh);
+            const velocity = direction.clone().multiplyScalar(SNOWBALL_SPEED);
+            velocity.y += SNOWBALL_LIFT;
+            balls.push({ mesh, velocity, age: 0 });
+        },
+        update(deltaSeconds) {
+            for (const ball of [...balls]) {
+                ball.age += deltaSeconds;
+                if (ball.age >= SNOWBALL_LIFETIME) {
+                    remove(ball);
+                    continue;
+                }
+                const { mesh, velocity } = ball;
+                velocity.y -= GRAVITY * deltaSeconds;
+                mesh.position.addScaledVector(velocity, deltaSeconds);
+                // The door stands on the floor, so y = 0 in door space is the floor.
+                if (mesh.position.y < SNOWBALL_RADIUS) {
+                    mesh.position.y = SNOWBALL_RADIUS;
+                    velocity.set(velocity.x * 0.6, Math.abs(velocity.y) * 0.3, velocity.z * 0.6);
+                }
+                // Shrink away over the last half second.
+                mesh.scale.setScalar(Math.min(1, (SNOWBALL_LIFETIME - ball.age) / 0.5));
+            }
+        },
+        dispose() {
+            for (const ball of [...balls]) remove(ball);
+            geometry.dispose();
+            material.dispose();
+        },
+    };
+}
+
+// A string of chasing, color-cycling bulbs around the doorway; tap to switch them on / off.
+function createLights({ entry }: SceneActionContext): SceneActionBehaviour {
+    const group = entry.portal.group;
+    const path = framePath(openingFrame(entry), BULB_INSET, BULB_DEPTH);
+    const positions: THREE.Vector3[] = [];
+    for (let i = 0; i < path.length - 1; i++) {
+        const from = path[i];
+        const to = path[i + 1];
+        const steps = Math.max(1, Math.round(from.distanceTo(to) / BULB_SPACING));
+        for (let s = 0; s < steps; s++) positions.push(from.clone().lerp(to, s / steps));
+    }
+    positions.push(path[path.length - 1].clone());
+
+    const geometry = new THREE.SphereGeometry(BULB_RADIUS, 8, 6);
+    const material = new THREE.MeshBasicMaterial();
+    const bulbs = new THREE.InstancedMesh(geometry, material, positions.length);
+    bulbs.name = 'SceneActionLights';
+    const matrix = new THREE.Matrix4();
+    positions.forEach((position, i) => bulbs.setMatrixAt(i, matrix.makeTranslation(position.x, position.y, position.z)));
+    group.add(bulbs);
+
+    const color = new THREE.Color();
+    let time = 0;
+    return {
+        update(deltaSeconds) {
+            if (!bulbs.visible) return;
+            time += deltaSeconds;
+            for (let i = 0; i < positions.length; i++) {
+                const hue = (i / positions.length + time * 0.1) % 1;
+                const chase = Math.max(0, Math.sin(time * 4 - i * 0.6));
+                bulbs.setColorAt(i, color.setHSL(hue, 1, 0.3 + 0.4 * chase));
+            }
+            if (bulbs.instanceColor) bulbs.instanceColor.needsUpdate = true;
+        },
+        select() {
+            bulbs.visible = !bulbs.visible;
+        },
+        dispose() {
+            group.remove(bulbs);
+            bulbs.dispose();
+            geometry.dispose();
+            material.dispose();
+        },
+    };
+}
+
+// Point out the capture controls for this scene.
+function createCaptureHint(): SceneActionBehaviour {
+    const photoButton = document.getElementById('capture-photo');
+    photoButton?.classList.add('is-highlighted');
+    return {
+        dispose() {
+            photoButton?.classList.remove('is-highlighted');
+        },
+    };
+}
+
+// A particle effect as a behaviour: `startBurst` on start, `selectBurst` per tap.
+function particleBehaviour(
+    entry: ManagedPortal,
+    options: ParticleEmitterOptions,
+    bursts: { start?: number; select?: number }
+): SceneActionBehaviour {
+    const particles = new ParticleEmitter(options);
+    entry.portal.group.add(particles.points);
+    if (bursts.start) particles.burst(bursts.start);
+    return {
+        update: (deltaSeconds) => particles.update(deltaSeconds),
+        select: bursts.select ? () => particles.burst(bursts.select!) : undefined,
+        dispose: () => particles.dispose(),
+    };
+}
+
+// Eldritch motes spiral up from a circle on the floor in front of the door; tap for a surge.
+function createSummon({ entry }: SceneActionContext): SceneActionBehaviour {
+    const center = new THREE.Vector3(openingFrame(entry).centerX, 0, FLOOR_EFFECT_DISTANCE);
+    const radius = 0.5;
+    const speed = 0.8;
+    return particleBehaviour(
+        entry,
+        {
+            maxParticles: 320,
+            color: 0x7cff9b,
+            size: 0.04,
+            lifetime: [2, 3],
+            rate: 70,
+            spawn({ position, velocity }) {
+                const angle = Math.random() * Math.PI * 2;
+                position.set(center.x + Math.cos(angle) * radius, 0.02, center.z + Math.sin(angle) * radius);
+                // Tangential start; the pull towards the axis (v²/r) keeps it circling while it rises.
+                velocity.set(-Math.sin(angle) * speed, rand(0.4, 0.8), Math.cos(angle) * speed);
+            },
+            force(position, _velocity, acceleration) {
+                acceleration.set(center.x - position.x, 0, center.z - position.z).multiplyScalar((speed * speed) / (radius * radius));
+            },
+        },
+        { select: 120 }
+    );
+}
+
+// The doorway rim pulses red until you dare to walk through; then it settles to a steady gold.
+function createDare({ entry }: SceneActionContext): SceneActionBehaviour {
+    const portal = entry.portal;
+    const material = new THREE.MeshBasicMaterial({ color: 0xff2a2a, transparent: true, blending: THREE.AdditiveBlending, depthWrite: false });
+    const rim = createFrameBars(openingFrame(entry), 0.03, material);
+    portal.group.add(rim);
+    let time = 0;
+    let accepted = false;
+    return {
+        update(deltaSeconds) {
+            time += deltaSeconds;
+            if (!accepted && portal.isInside()) {
+                accepted = true;
+                material.color.set(0xffd040);
+            }
+            material.opacity = accepted ? 0.8 : 0.35 + 0.65 * (0.5 + 0.5 * Math.sin(time * 6));
+        },
+        dispose() {
+            rim.removeFromParent();
+            rim.children.forEach((bar) => (bar as THREE.Mesh).geometry.dispose());
+            material.dispose();
+        },
+    };
+}
+
+// Sparks blast up from a launch pad in front of the door; tap to launch again.
+function createLaunch({ entry }: SceneActionContext): SceneActionBehaviour {
+    const x = openingFrame(entry).centerX;
+    return particleBehaviour(
+        entry,
+        {
+            maxParticles: 400,
+            color: 0xffa040,
+            size: 0.035,
+            lifetime: [1.2, 2],
+            gravity: 3,
+            spawn({ position, velocity }) {
+                position.set(x + rand(-0.05, 0.05), 0.05, FLOOR_EFFECT_DISTANCE);
+                velocity.set(rand(-0.4, 0.4), rand(3, 4.5), rand(-0.4, 0.4));
+            },
+        },
+        { start: 150, select: 150 }
+    );
+}
+
+// Fireflies drift around in front of the door; tap to release a few more.
+function createFireflies({ entry }: SceneActionContext): SceneActionBehaviour {
+    const x = openingFrame(entry).centerX;
+    return particleBehaviour(
+        entry,
+        {
+            maxParticles: 80,
+            color: 0xd8ff6a,
+            size: 0.035,
+            lifetime: [6, 10],
+            rate: 8,
+            spawn({ position, velocity }) {
+                position.set(x + rand(-1.2, 1.2), rand(0.3, 2), rand(0.2, 1.8));
+                velocity.set(rand(-0.1, 0.1), rand(-0.1, 0.1), rand(-0.1, 0.1));
+            },
+            // Random nudges plus drag: a slow, wandering drift.
+            force(_position, velocity, acceleration) {
+                acceleration.set(rand(-0.8, 0.8), rand(-0.8, 0.8), rand(-0.8, 0.8)).addScaledVector(velocity, -0.8);
+            },
+        },
+        { start: 20, select: 20 }
+    );
+}
+
+// Snow falls through the doorway area; tap for a flurry.
+function createSnowfall({ entry }: SceneActionContext): SceneActionBehaviour {
+    const frame = openingFrame(entry);
+    return particleBehaviour(
+        entry,
+        {
+            maxParticles: 500,
+            color: 0xffffff,
+            size: 0.03,
+            lifetime: [4, 5],
+            rate: 90,
+            spawn({ position, velocity }) {
+                position.set(frame.centerX + rand(-1.5, 1.5), frame.top + 0.8, rand(-0.2, 2.5));
+                velocity.set(rand(-0.1, 0.1), rand(-0.6, -0.4), rand(-0.1, 0.1));
+            },
+            force(position, _velocity, acceleration, age) {
+                acceleration.set(Math.sin(age * 2 + position.y * 3) * 0.3, 0, 0);
+            },
+        },
+        { select: 150 }
+    );
+}
+
+// A glowing scan line sweeps up and down the opening.
+function createScan({ entry }: SceneActionContext): SceneActionBehaviour {
+    const frame = openingFrame(entry);
+    const geometry = new THREE.PlaneGeometry(frame.width + 0.1, 0.025);
+    const material = new THREE.MeshBasicMaterial({ color: 0x40e0ff, transparent: true, opacity: 0.9, blending: THREE.AdditiveBlending, depthWrite: false, side: THREE.DoubleSide });
+    const line = new THREE.Mesh(geometry, material);
+    line.name = 'SceneActionScan';
+    line.position.set(frame.centerX, frame.bottom, 0.02);
+    entry.portal.group.add(line);
+    let time = 0;
+    return {
+        update(deltaSeconds) {
+            time += deltaSeconds;
+            const sweep = 0.5 - 0.5 * Math.cos((time / SCAN_PERIOD) * Math.PI * 2);
+            line.position.y = frame.bottom + (frame.top - frame.bottom) * sweep;
+        },
+        dispose() {
+            line.removeFromParent();
+            geometry.dispose();
+            material.dispose();
+        },
+    };
+}
+
+// The door swings open (and stays open while the action runs) and chevrons on the floor lead into it; they
+// go out once you're through.
+function createEnterGuide({ entry }: SceneActionContext): SceneActionBehaviour {
+    const portal = entry.portal;
+    const releaseDoor = portal.holdDoorOpen();
+
+    const shape = new THREE.Shape()
+        .moveTo(-0.15, -0.06)
+        .lineTo(0, 0.08)
+        .lineTo(0.15, -0.06)
+        .lineTo(0.15, 0)
+        .lineTo(0, 0.14)
+        .lineTo(-0.15, 0)
+        .closePath();
+    const geometry = new THREE.ShapeGeometry(shape);
+    // Flat on the floor, pointing at the door (-z).
+    geometry.rotateX(-Math.PI / 2);
+    const x = openingFrame(entry).centerX;
+    const chevrons = [1.8, 1.2, 0.6].map((z) => {
+        const material = new THREE.MeshBasicMaterial({ color: 0x40e0ff, transparent: true, blending: THREE.AdditiveBlending, depthWrite: false });
+        const chevron = new THREE.Mesh(geometry, material);
+        chevron.position.set(x, 0.01, z);
+        portal.group.add(chevron);
+        return chevron;
+    });
+    let time = 0;
+    return {
+        update(deltaSeconds) {
+            time += deltaSeconds;
+            const visible = !portal.isInside();
+            chevrons.forEach((chevron, i) => {
+                chevron.visible = visible;
+                // A wave running towards the door.
+                (chevron.material as THREE.MeshBasicMaterial).opacity = 0.2 + 0.8 * Math.max(0, Math.sin(time * 4 - i * 1.2));
+            });
+        },
+        dispose() {
+            releaseDoor();
+            for (const chevron of chevrons) {
+                chevron.removeFromParent();
+                (chevron.material as THREE.Material).dispose();
+            }
+            geometry.dispose();
+        },
+    };
+}
+
+// A red carpet rolls out from the threshold; tap to roll it up or out again.
+function createCarpet({ entry }: SceneActionContext): SceneActionBehaviour {
+    const frame = openingFrame(entry);
+    const geometry = new THREE.PlaneGeometry(Math.min(frame.width * 0.8, 1), CARPET_LENGTH);
+    // Flat on the floor, from the door plane outwards, so scaling z rolls it out from the threshold.
+    geometry.rotateX(-Math.PI / 2);
+    geometry.translate(0, 0, CARPET_LENGTH / 2);
+    const material = new THREE.MeshStandardMaterial({ color: 0x9b1b30, roughness: 1 });
+    const carpet = new THREE.Mesh(geometry, material);
+    carpet.name = 'SceneActionCarpet';
+    carpet.position.set(frame.centerX, 0.004, 0.02);
+    entry.portal.group.add(carpet);
+    let progress = 0;
+    let rollingOut = true;
+    return {
+        update(deltaSeconds) {
+            const step = deltaSeconds / CARPET_ROLL_TIME;
+            progress = THREE.MathUtils.clamp(progress + (rollingOut ? step : -step), 0, 1);
+            const eased = 1 - (1 - progress) ** 3;
+            carpet.visible = eased > 0.001;
+            carpet.scale.z = Math.max(eased, 0.001);
+        },
+        select() {
+            rollingOut = !rollingOut;
+        },
+        dispose() {
+            carpet.removeFromParent();
+            geometry.dispose();
+            material.dispose();
+        },
+    };
+}
+
+// Gold confetti showers from the top of the doorway; tap for more.
+function createGoldShower({ entry }: SceneActionContext): SceneActionBehaviour {
+    const frame = openingFrame(entry);
+    return particleBehaviour(
+        entry,
+        {
+            maxParticles: 400,
+            color: 0xffd040,
+            size: 0.03,
+            lifetime: [2, 3],
+            gravity: 2.5,
+            spawn({ position, velocity }) {
+                position.set(rand(frame.left, frame.right), frame.top, 0.05);
+                velocity.set(rand(-0.6, 0.6), rand(0.8, 2), rand(0.6, 1.6));
+            },
+            // Air drag: confetti flutters down instead of dropping.
+            force(_position, velocity, acceleration) {
+                acceleration.copy(velocity).multiplyScalar(-0.6);
+            },
+        },
+        { start: 200, select: 200 }
+    );
+}
+
+// Petals drift down in front of the door; tap for a handful more.
+function createPetals({ entry }: SceneActionContext): SceneActionBehaviour {
+    const frame = openingFrame(entry);
+    return particleBehaviour(
+        entry,
+        {
+            maxParticles: 200,
+            color: 0xffa6c9,
+            size: 0.035,
+            lifetime: [5, 6],
+            rate: 25,
+            spawn({ position, velocity }) {
+                position.set(frame.centerX + rand(-frame.width, frame.width), frame.top + 0.5, rand(0, 1.2));
+                velocity.set(0, rand(-0.45, -0.3), 0);
+            },
+            force(_position, _velocity, acceleration, age) {
+                acceleration.set(Math.cos(age * 3) * 0.6, 0, Math.sin(age * 2) * 0.3);
+            },
+        },
+        { select: 60 }
+    );
+}
+
+// A golden ring spins above the doorway; tap to make it sparkle.
+function createRing({ entry }: SceneActionContext): SceneActionBehaviour {
+    const frame = openingFrame(entry);
+    const group = entry.portal.group;
+    const geometry = new THREE.TorusGeometry(RING_RADIUS, 0.018, 12, 48);
+    const material = new THREE.MeshStandardMaterial({ color: 0xffc84a, metalness: 0.9, roughness: 0.25, emissive: 0x332200 });
+    const ring = new THREE.Mesh(geometry, material);
+    ring.name = 'SceneActionRing';
+    const center = new THREE.Vector3(frame.centerX, frame.top + 0.3, 0.1);
+    ring.position.copy(center);
+    group.add(ring);
+
+    const sparkles = particleBehaviour(
+        entry,
+        {
+            maxParticles: 200,
+            color: 0xfff3c0,
+            size: 0.025,
+            lifetime: [0.8, 1.4],
+            gravity: 0.5,
+            spawn({ position, velocity }) {
+                const angle = Math.random() * Math.PI * 2;
+                position.set(Math.cos(angle) * RING_RADIUS, Math.sin(angle) * RING_RADIUS, 0).applyQuaternion(ring.quaternion).add(center);
+                velocity.copy(position).sub(center).normalize().multiplyScalar(rand(0.3, 0.9));
+            },
+        },
+        { start: 40, select: 80 }
+    );
+    let time = 0;
+    return {
+        update(deltaSeconds) {
+            time += deltaSeconds;
+            ring.rotation.y = time * 1.5;
+            ring.position.y = center.y + Math.sin(time * 2) * 0.03;
+            sparkles.update?.(deltaSeconds);
+        },
+        select: sparkles.select,
+        dispose() {
+            sparkles.dispose();
+            ring.removeFromParent();
+            geometry.dispose();
+            material.dispose();
+        },
+    };
+}
+
+// Baubles hang around the doorway; each tap hangs another one (past MAX_ORNAMENTS the oldest comes down).
+function createOrnaments({ entry }: SceneActionContext): SceneActionBehaviour {
+    const group = entry.portal.group;
+    const path = framePath(openingFrame(entry), BULB_INSET, BULB_DEPTH);
+    const lengths = path.slice(1).map((point, i) => point.distanceTo(path[i]));
+    const total = lengths.reduce((sum, length) => sum + length, 0);
+    const geometry = new THREE.SphereGeometry(ORNAMENT_RADIUS, 16, 12);
+    const materials = ORNAMENT_COLORS.map((color) => new THREE.MeshStandardMaterial({ color, metalness: 0.4, roughness: 0.3 }));
+    const ornaments: { mesh: THREE.Mesh; age: number }[] = [];
+
+    const hang = () => {
+        if (ornaments.length >= MAX_ORNAMENTS) ornaments.shift()!.mesh.removeFromParent();
+        // A random spot along the frame path.
+        let distance = Math.random() * total;
+        let segment = 0;
+        while (segment < lengths.length - 1 && distance > lengths[segment]) distance -= lengths[segment++];
+        const mesh = new THREE.Mesh(geometry, materials[Math.floor(Math.random() * materials.length)]);
+        mesh.position.lerpVectors(path[segment], path[segment + 1], distance / lengths[segment]);
+        mesh.scale.setScalar(0.001);
+        group.add(mesh);
+        ornaments.push({ mesh, age: 0 });
+    };
+    for (let i = 0; i < 6; i++) hang();
+
+    return {
+        update(deltaSeconds) {
+            for (const ornament of ornaments) {
+                if (ornament.age >= 0.3) continue;
+                ornament.age += deltaSeconds;
+                // Pop in with a little overshoot.
+                const t = Math.min(1, ornament.age / 0.3);
+                ornament.mesh.scale.setScalar(Math.max(0.001, 1 + 0.3 * Math.sin(t * Math.PI) - (1 - t)));
+            }
+        },
+        select: hang,
+        dispose() {
+            for (const { mesh } of ornaments) mesh.removeFromParent();
+            geometry.dispose();
+            materials.forEach((material) => material.dispose());
+        },
+    };
+}
+
+// Left, top and right bars just outside the opening, sharing `material`.
+function createFrameBars(frame: OpeningFrame, thickness: number, material: THREE.Material): THREE.Group {
+    const bars = new THREE.Group();
+    bars.name = 'SceneActionFrame';
+    const height = frame.top - frame.bottom + thickness;
+    const width = frame.width + thickness * 2;
+    const side = (x: number) => {
+        const bar = new THREE.Mesh(new THREE.PlaneGeometry(thickness, height), material);
+        bar.position.set(x, frame.bottom + height / 2, 0.02);
+        return bar;
+    };
+    const top = new THREE.Mesh(new THREE.PlaneGeometry(width, thickness), material);
+    top.position.set(frame.centerX, frame.top + thickness / 2, 0.02);
+    bars.add(side(frame.left - thickness / 2), top, side(frame.right + thickness / 2));
+    return bars;
+}
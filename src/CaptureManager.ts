@@ -0,0 +1,309 @@
+import * as THREE from 'three';
+import { createLogger } from './Logger';
+
+// Photo / short video capture of what the user sees.
+// - The portal layer is read back from the framebuffer right after `renderer.render` (in AR that's the XR
+//   layer, which the page canvas never shows), so `afterRender()` must be called from the frame loop.
+// - In AR with raw camera access (`camera-access` feature, XRWebGLBinding.getCameraImage) the camera image
+//   goes underneath; without it the background stays transparent (PNG). The inline preview has its own
+//   background already.
+// - A watermark (text, plus `VITE_CAPTURE_LOGO_URL` if set) is drawn on top.
+// - Video: the same composite canvas, redrawn at RECORD_FPS while recording, into MediaRecorder.
+// Results go to the Web Share API when it accepts files, otherwise they're downloaded.
+
+const log = createLogger('CaptureManager');
+
+const RECORD_FPS = 24;
+export const MAX_CLIP_SECONDS = 15;
+const WATERMARK_TEXT = 'Gaussian Splat Portal';
+const VIDEO_TYPES = ['video/mp4', 'video/webm;codecs=vp9', 'video/webm'];
+
+export interface CaptureManagerEventMap {
+    // Recording started / stopped; `seconds` ticks while recording (UI countdown).
+    recordingchange: { recording: boolean; seconds: number };
+}
+
+interface PendingPhoto {
+    resolve: (blob: Blob) => void;
+    reject: (err: unknown) => void;
+}
+
+export class CaptureManager extends THREE.EventDispatcher<CaptureManagerEventMap> {
+    private readonly renderer: THREE.WebGLRenderer;
+    private readonly canvas = document.createElement('canvas');
+    private readonly ctx: CanvasRenderingContext2D;
+    // Scratch canvas for the read-back pixels (putImageData can't scale or blend).
+    private readonly layerCanvas = document.createElement('canvas');
+    private readonly layerCtx: CanvasRenderingContext2D;
+    private readonly layerPixels = new PixelReadback();
+    // Same for the raw camera image (AR with camera access).
+    private readonly cameraCanvas = document.createElement('canvas');
+    private readonly cameraCtx: CanvasRenderingContext2D;
+    private readonly cameraPixels = new PixelReadback();
+
+    private pendingPhoto: PendingPhoto | null = null;
+    private recorder: MediaRecorder | null = null;
+    private recordStartedAt = 0;
+    private lastRecordFrameAt = 0;
+    private lastReportedSecond = -1;
+
+    private binding: any = null; // XRWebGLBinding
+    private bindingSession: any = null;
+    private cameraFramebuffer: WebGLFramebuffer | null = null;
+    private logo: HTMLImageElement | null = null;
+
+    constructor(renderer: THREE.WebGLRenderer) {
+        super();
+        this.renderer = renderer;
+        this.ctx = this.canvas.getContext('2d')!;
+        this.layerCtx = this.layerCanvas.getContext('2d')!;
+        this.cameraCtx = this.cameraCanvas.getContext('2d')!;
+
+        const logoUrl = import.meta.env.VITE_CAPTURE_LOGO_URL;
+        if (logoUrl) {
+            const img = new Image();
+            img.crossOrigin = 'anonymous';
+            img.onload = () => (this.logo = img);
+            img.onerror = () => log.warn('Could not load watermark logo:', logoUrl);
+            img.src = logoUrl;
+        }
+    }
+
+    public get isRecording(): boolean {
+        return this.recorder !== null;
+    }
+
+    public static isVideoSupported(): boolean {
+        return typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+    }
+
+    /** Resolves with the next rendered frame as an image. */
+    public takePhoto(): Promise<Blob> {
+        if (this.pendingPhoto) return Promise.reject(new Error('A photo is already being taken'));
+        return new Promise((resolve, reject) => {
+            this.pendingPhoto = { resolve, reject };
+        });
+    }
+
+    public startRecording() {
+        if (this.recorder || !CaptureManager.isVideoSupported()) return;
+        const mimeType = VIDEO_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+        const stream = this.canvas.captureStream(RECORD_FPS);
+        const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+        const chunks: Blob[] = [];
+        recorder.ondataavailable = (e) => {
+            if (e.data.size > 0) chunks.push(e.data);
+        };
+        recorder.onstop = () => {
+            stream.getTracks().forEach((track) => track.stop());
+            const type = recorder.mimeType || 'video/webm';
+            const ext = type.startsWith('video/mp4') ? 'mp4' : 'webm';
+            void shareOrDownload(new Blob(chunks, { type }), `portal-${timestamp()}.${ext}`);
+        };
+
+        this.recorder = recorder;
+        this.recordStartedAt = performance.now();
+        this.lastRecordFrameAt = 0;
+        this.lastReportedSecond = -1;
+        recorder.start();
+        log.info(`Recording (${recorder.mimeType || 'default type'})`);
+        this.dispatchEvent({ type: 'recordingchange', recording: true, seconds: 0 });
+    }
+
+    public stopRecording() {
+        const recorder = this.recorder;
+        if (!recorder) return;
+        this.recorder = null;
+        if (recorder.state !== 'inactive') recorder.stop();
+        this.dispatchEvent({ type: 'recordingchange', recording: false, seconds: 0 });
+    }
+
+    /** Call right after `renderer.render()`; `frame` is the XRFrame in AR (undefined inline). */
+    public afterRender(frame?: any) {
+        const now = performance.now();
+        const recordFrame = this.recorder !== null && now - this.lastRecordFrameAt >= 1000 / RECORD_FPS;
+        if (!this.pendingPhoto && !recordFrame) return;
+
+        try {
+            const transparent = this.compose(frame);
+            if (recordFrame) this.lastRecordFrameAt = now;
+            if (this.pendingPhoto) this.finishPhoto(transparent);
+        } catch (err) {
+            log.warn('Capture failed:', err);
+            this.pendingPhoto?.reject(err);
+            this.pendingPhoto = null;
+            this.stopRecording();
+        }
+
+        if (this.recorder) {
+            const seconds = Math.floor((now - this.recordStartedAt) / 1000);
+            if (seconds >= MAX_CLIP_SECONDS) this.stopRecording();
+            else if (seconds !== this.lastReportedSecond) {
+                this.lastReportedSecond = seconds;
+                this.dispatchEvent({ type: 'recordingchange', recording: true, seconds });
+            }
+        }
+    }
+
+    private finishPhoto(transparent: boolean) {
+        const pending = this.pendingPhoto!;
+        this.pendingPhoto = null;
+        const type = transparent ? 'image/png' : 'image/jpeg';
+        this.canvas.toBlob((blob) => (blob ? pending.resolve(blob) : pending.reject(new Error('Encoding failed'))), type, 0.92);
+    }
+
+    // Draw camera (if any) + portal layer + watermark into `canvas`. Returns true if the background is empty.
+    private compose(frame?: any): boolean {
+        const gl = this.renderer.getContext();
+        const session = this.renderer.xr.isPresenting ? (this.renderer.xr.getSession() as any) : null;
+        const layer = session?.renderState?.baseLayer;
+        const framebuffer: WebGLFramebuffer | null = layer?.framebuffer ?? null;
+        const width: number = layer ? layer.framebufferWidth : gl.drawingBufferWidth;
+        const height: number = layer ? layer.framebufferHeight : gl.drawingBufferHeight;
+
+        resizeCanvas(this.canvas, width, height);
+        this.ctx.clearRect(0, 0, width, height);
+
+        const camera = session && frame ? this.readCameraImage(session, frame, gl) : null;
+        if (camera) this.drawCover(camera);
+
+        const previous = gl.getParameter(gl.FRAMEBUFFER_BINDING);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+        const portalLayer = this.layerPixels.read(gl, width, height, true);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, previous);
+        resizeCanvas(this.layerCanvas, width, height);
+        this.layerCtx.putImageData(portalLayer, 0, 0);
+        this.ctx.drawImage(this.layerCanvas, 0, 0);
+
+        this.drawWatermark(width, height);
+        return session !== null && !camera;
+    }
+
+    // Raw camera image for the first view as a canvas, or null without camera access.
+    private readCameraImage(session: any, frame: any, gl: WebGLRenderingContext | WebGL2RenderingContext): HTMLCanvasElement | null {
+        if (typeof XRWebGLBinding === 'undefined') return null;
+        const referenceSpace = this.renderer.xr.getReferenceSpace();
+        const view = referenceSpace ? frame.getViewerPose(referenceSpace)?.views?.[0] : null;
+        if (!view?.camera) return null;
+
+        if (this.bindingSession !== session) {
+            this.binding = new XRWebGLBinding(session, gl);
+            this.bindingSession = session;
+        }
+        const texture: WebGLTexture | null = this.binding.getCameraImage?.(view.camera) ?? null;
+        if (!texture) return null;
+
+        const { width, height } = view.camera as { width: number; height: number };
+        const previous = gl.getParameter(gl.FRAMEBUFFER_BINDING);
+        this.cameraFramebuffer ??= gl.createFramebuffer();
+        gl.bindFramebuffer(gl.FRAMEBUFFER, this.cameraFramebuffer);
+        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+        const image = this.cameraPixels.read(gl, width, height, false);
+        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, null, 0);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, previous);
+
+        resizeCanvas(this.cameraCanvas, width, height);
+        this.cameraCtx.putImageData(image, 0, 0);
+        return this.cameraCanvas;
+    }
+
+    private drawCover(image: HTMLCanvasElement) {
+        const { width, height } = this.canvas;
+        const scale = Math.max(width / image.width, height / image.height);
+        const w = image.width * scale;
+        const h = image.height * scale;
+        this.ctx.drawImage(image, (width - w) / 2, (height - h) / 2, w, h);
+    }
+
+    private drawWatermark(width: number, height: number) {
+        const margin = Math.round(Math.min(width, height) * 0.03);
+        const fontSize = Math.max(12, Math.round(Math.min(width, height) * 0.028));
+        const ctx = this.ctx;
+        ctx.save();
+        let right = width - margin;
+        if (this.logo) {
+            const logoH = fontSize * 1.6;
+            const logoW = (this.logo.width / this.logo.height) * logoH;
+            ctx.globalAlpha = 0.85;
+            ctx.drawImage(this.logo, right - logoW, height - margin - logoH, logoW, logoH);
+            right -= logoW + fontSize * 0.5;
+        }
+        ctx.globalAlpha = 0.8;
+        ctx.font = `600 ${fontSize}px system-ui, -apple-system, sans-serif`;
+        ctx.textAlign = 'right';
+        ctx.textBaseline = 'bottom';
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+        ctx.shadowBlur = fontSize * 0.3;
+        ctx.fillStyle = '#fff';
+        ctx.fillText(WATERMARK_TEXT, right, height - margin - fontSize * 0.2);
+        ctx.restore();
+    }
+}
+
+/** Share `blob` through the Web Share API if it takes files; otherwise download it. */
+export async function shareOrDownload(blob: Blob, filename: string) {
+    const file = new File([blob], filename, { type: blob.type });
+    const nav = navigator as Navigator & { canShare?: (data: ShareData) => boolean };
+    if (typeof nav.share === 'function' && nav.canShare?.({ files: [file] })) {
+        try {
+            await nav.share({ files: [file], title: WATERMARK_TEXT });
+            return;
+        } catch (err) {
+            // The user closed the share sheet: don't also download.
+            if ((err as DOMException)?.name === 'AbortError') return;
+            log.warn('Share failed, downloading instead:', err);
+        }
+    }
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
+
+// Read-back buffers for one source, kept between frames: recording reads at RECORD_FPS and per-frame
+// full-resolution allocations show up as GC stalls. Reallocated only when the size changes.
+class PixelReadback {
+    private raw = new Uint8ClampedArray(0);
+    private image: ImageData | null = null;
+
+    /**
+     * RGBA of the currently bound framebuffer as top-down ImageData (WebGL rows are bottom-up). The result is
+     * overwritten by the next read. `unpremultiply` for layers rendered with premultiplied alpha.
+     */
+    public read(gl: WebGLRenderingContext | WebGL2RenderingContext, width: number, height: number, unpremultiply: boolean) {
+        const size = width * height * 4;
+        if (this.raw.length !== size) this.raw = new Uint8ClampedArray(size);
+        if (this.image?.width !== width || this.image.height !== height) this.image = new ImageData(width, height);
+        gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, this.raw);
+
+        const out = this.image.data;
+        const row = width * 4;
+        for (let y = 0; y < height; y++) {
+            out.set(this.raw.subarray(y * row, (y + 1) * row), (height - 1 - y) * row);
+        }
+        if (unpremultiply) {
+            for (let i = 0; i < out.length; i += 4) {
+                const a = out[i + 3];
+                if (a === 0 || a === 255) continue;
+                out[i] = (out[i] * 255) / a;
+                out[i + 1] = (out[i + 1] * 255) / a;
+                out[i + 2] = (out[i + 2] * 255) / a;
+            }
+        }
+        return this.image;
+    }
+}
+
+// Assigning width / height clears (and may reallocate) a canvas even when the size is unchanged.
+function resizeCanvas(canvas: HTMLCanvasElement, width: number, height: number) {
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+}
+
+function timestamp() {
+    return new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+}
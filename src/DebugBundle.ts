@@ -0,0 +1,99 @@
+import type * as THREE from 'three';
+import type { PortalManager } from './PortalManager';
+import { shareOrDownload } from './CaptureManager';
+import { createLogger, getLogEntries } from './Logger';
+
+// Debug bundle: one JSON file with everything a bug report needs — build id, device / browser capabilities,
+// every door's `debugDump()` state and the recorded log entries.
+// - `window.__portalDebug.bundle()` returns it; the diagnostics overlay's button copies it.
+// - Copy goes to the clipboard; where that's blocked (no permission, insecure context) the file is shared /
+//   downloaded instead.
+
+const log = createLogger('DebugBundle');
+
+export interface DebugBundleSource {
+    portals: PortalManager;
+    renderer: THREE.WebGLRenderer;
+}
+
+export async function buildDebugBundle({ portals, renderer }: DebugBundleSource) {
+    return {
+        buildId: __BUILD_ID__,
+        time: new Date().toISOString(),
+        url: window.location.href,
+        userAgent: navigator.userAgent,
+        capabilities: await readCapabilities(renderer),
+        state: portals.debugDump(),
+        logs: getLogEntries(),
+    };
+}
+
+/** Copy the bundle as JSON; falls back to sharing / downloading a file. Returns how it was delivered. */
+export async function exportDebugBundle(source: DebugBundleSource): Promise<'copied' | 'saved'> {
+    const json = JSON.stringify(await buildDebugBundle(source), null, 2);
+    try {
+        await navigator.clipboard.writeText(json);
+        log.info(`Debug bundle copied (${json.length} chars)`);
+        return 'copied';
+    } catch (err) {
+        log.warn('Clipboard unavailable, saving the debug bundle as a file:', err);
+    }
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    await shareOrDownload(new Blob([json], { type: 'application/json' }), `portal-debug-${stamp}.json`);
+    return 'saved';
+}
+
+async function readCapabilities(renderer: THREE.WebGLRenderer) {
+    const nav = navigator as Navigator & { deviceMemory?: number };
+    const gl = renderer.getContext();
+    const rendererInfo = gl.getExtension('WEBGL_debug_renderer_info');
+    const capabilities = renderer.capabilities;
+
+    return {
+        language: navigator.language,
+        devicePixelRatio: window.devicePixelRatio,
+        screen: { width: window.screen.width, height: window.screen.height },
+        viewport: { width: window.innerWidth, height: window.innerHeight },
+        hardwareConcurrency: navigator.hardwareConcurrency ?? null,
+        deviceMemory: nav.deviceMemory ?? null,
+        webxr: {
+            available: Boolean(navigator.xr),
+            immersiveAR: await isSessionSupported('immersive-ar'),
+            inline: await isSessionSupported('inline'),
+            presenting: renderer.xr.isPresenting,
+        },
+        webgl: {
+            webgl2: capabilities.isWebGL2,
+            vendor: rendererInfo ? gl.getParameter(rendererInfo.UNMASKED_VENDOR_WEBGL) : gl.getParameter(gl.VENDOR),
+            renderer: rendererInfo ? gl.getParameter(rendererInfo.UNMASKED_RENDERER_WEBGL) : gl.getParameter(gl.RENDERER),
+            maxTextureSize: capabilities.maxTextureSize,
+            maxTextures: capabilities.maxTextures,
+            precision: capabilities.precision,
+            stencilBits: gl.getParameter(gl.STENCIL_BITS),
+        },
+        mediaRecorder: typeof MediaRecorder !== 'undefined',
+        audioContext: typeof AudioContext !== 'undefined',
+        serviceWorker: Boolean(navigator.serviceWorker?.controller),
+        storage: await readStorageEstimate(),
+    };
+}
+
+async function isSessionSupported(mode: XRSessionMode): Promise<boolean | null> {
+    if (!navigator.xr) return null;
+    try {
+        return await navigator.xr.isSessionSupported(mode);
+    } catch {
+        return null;
+    }
+}
+
+async function readStorageEstimate() {
+    if (!navigator.storage?.estimate) return null;
+    try {
+        const { usage, quota } = await navigator.storage.estimate();
+        const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : null;
+        return { usage: usage ?? null, quota: quota ?? null, persisted };
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,78 @@
+import { getPortalOpening } from './PortalConfig';
+import type { PortalManager } from './PortalManager';
+import { t } from './I18n';
+
+// On-screen diagnostics while debugging (`?debug=1`): frame rate / time, the active door's crossing state,
+// its effective opening and splat count. Part of the DOM overlay, so it's visible in AR too. Refreshed a few
+// times a second from the render loop, not every frame.
+
+const REFRESH_INTERVAL = 0.25; // s
+// How long the copy button shows the result before going back to its label (ms).
+const COPY_FEEDBACK_MS = 2000;
+
+export class DiagnosticsOverlay {
+    private readonly portals: PortalManager;
+    private readonly stats: HTMLElement;
+    private frames = 0;
+    private frameTime = 0;
+    private worstFrameTime = 0;
+
+    constructor(portals: PortalManager, root: HTMLElement, copyBundle: () => Promise<'copied' | 'saved'>) {
+        this.portals = portals;
+        this.stats = root.querySelector('#diagnostics-stats') ?? root;
+        root.style.display = 'block';
+        // Taps on the panel must not place the door.
+        root.addEventListener('beforexrselect', (e) => e.preventDefault());
+
+        const copyButton = root.querySelector<HTMLButtonElement>('#copy-debug-bundle');
+        copyButton?.addEventListener('click', async () => {
+            copyButton.disabled = true;
+            try {
+                const result = await copyBundle();
+                copyButton.textContent = t(result === 'copied' ? 'debug.copied' : 'debug.saved');
+            } catch {
+                copyButton.textContent = t('debug.copyFailed');
+            }
+            window.setTimeout(() => {
+                copyButton.textContent = t('debug.copyBundle');
+                copyButton.disabled = false;
+            }, COPY_FEEDBACK_MS);
+        });
+    }
+
+    /** Per rendered frame. */
+    public frame(deltaSeconds: number) {
+        // The first frame after a (re)start has no delta.
+        if (deltaSeconds <= 0) return;
+        this.frames++;
+        this.frameTime += deltaSeconds;
+        this.worstFrameTime = Math.max(this.worstFrameTime, deltaSeconds);
+        if (this.frameTime < REFRESH_INTERVAL) return;
+
+        this.stats.textContent = this.describe();
+        this.frames = 0;
+        this.frameTime = 0;
+        this.worstFrameTime = 0;
+    }
+
+    private describe(): string {
+        const entry = this.portals.active;
+        const portal = entry.portal;
+        const status = portal.getStatus();
+        const config = portal.getConfig().config;
+        const opening = getPortalOpening(config);
+        const fps = (this.frames / this.frameTime).toFixed(1);
+        const averageMs = ((this.frameTime / this.frames) * 1000).toFixed(1);
+        const worstMs = (this.worstFrameTime * 1000).toFixed(1);
+        const z = status.cameraLocalZ !== null ? status.cameraLocalZ.toFixed(2) : '–';
+        const size = `${opening.w.toFixed(2)}×${opening.h.toFixed(2)} m`;
+
+        return [
+            `${fps} fps · ${averageMs} ms (max ${worstMs})`,
+            `door ${entry.id}/${this.portals.all.length} ${entry.sceneKey ?? '–'}${portal.group.visible ? '' : ' (hidden)'}`,
+            `${status.isInside ? 'inside' : 'outside'} · zone ${status.zone} · z ${z} · door ${status.doorState}`,
+            `opening ${size} · x ${opening.offsetX.toFixed(2)} · bottom ${opening.bottomY.toFixed(2)} · ${config.openingShape.type}`,
+            status.loading ? 'splats loading…' : `splats ${status.splatCount?.toLocaleString() ?? '–'}`,
+        ].join('\n');
+    }
+}
@@ -0,0 +1,162 @@
+import * as THREE from 'three';
+import { createLogger } from './Logger';
+
+// Door GLB animation playback by clip role instead of "whatever animations[0] is".
+// - Roles: `open` (once), `close` (once), `idle` (loops while the door stands open).
+// - Clips are picked by the configured names, else by a name containing open / close / idle; a door with a
+//   single unnamed clip uses it as `open`.
+// - Without a `close` clip (or when asked to), closing plays `open` in reverse from wherever it currently is,
+//   so interrupting an opening door closes it smoothly.
+// - Time comes from the caller (XR frame timestamps), not a fixed step.
+
+const log = createLogger('DoorAnimator');
+
+export type DoorState = 'closed' | 'opening' | 'open' | 'closing';
+
+export interface DoorClipNames {
+    open?: string;
+    close?: string;
+    idle?: string;
+}
+
+export interface DoorAnimatorEventMap {
+    statechange: { state: DoorState };
+}
+
+export class DoorAnimator extends THREE.EventDispatcher<DoorAnimatorEventMap> {
+    private readonly mixer: THREE.AnimationMixer;
+    private readonly openAction: THREE.AnimationAction | null;
+    private readonly closeAction: THREE.AnimationAction | null;
+    private readonly idleAction: THREE.AnimationAction | null;
+    private current: THREE.AnimationAction | null = null;
+    private doorState: DoorState = 'closed';
+
+    constructor(root: THREE.Object3D, clips: THREE.AnimationClip[], names: DoorClipNames = {}) {
+        super();
+        this.mixer = new THREE.AnimationMixer(root);
+        const open = findClip(clips, names.open, 'open') ?? (clips.length === 1 ? clips[0] : null);
+        const close = findClip(clips, names.close, 'close');
+        const idle = findClip(clips, names.idle, 'idle');
+
+        this.openAction = open ? this.createAction(open, false) : null;
+        this.closeAction = close && close !== open ? this.createAction(close, false) : null;
+        this.idleAction = idle && idle !== open && idle !== close ? this.createAction(idle, true) : null;
+
+        this.mixer.addEventListener('finished', (event) => this.onFinished(event.action as THREE.AnimationAction));
+        log.info('Clips:', {
+            open: open?.name ?? null,
+            close: close?.name ?? null,
+            idle: idle?.name ?? null,
+            available: clips.map((clip) => clip.name),
+        });
+    }
+
+    public get state(): DoorState {
+        return this.doorState;
+    }
+
+    public get hasOpenClip(): boolean {
+        return this.openAction !== null;
+    }
+
+    /** Play the opening. Reversing a closing door picks up from its current pose. */
+    public open() {
+        if (this.doorState === 'open' || this.doorState === 'opening') return;
+        const action = this.openAction;
+        if (!action) {
+            this.setState('open');
+            return;
+        }
+
+        const resume = this.current === action && this.doorState === 'closing';
+        this.stopOthers(action);
+        if (!resume) action.reset();
+        action.paused = false;
+        action.timeScale = 1;
+        action.play();
+        this.current = action;
+        this.setState('opening');
+    }
+
+    /**
+     * Play the closing: the `close` clip, or the opening in reverse when there is none (or `reverse` is set).
+     * An opening that's still running always reverses from where it is.
+     */
+    public close(options: { reverse?: boolean } = {}) {
+        if (this.doorState === 'closed' || this.doorState === 'closing') return;
+
+        const interruptOpening = this.doorState === 'opening';
+        const action = !interruptOpening && !options.reverse && this.closeAction ? this.closeAction : this.openAction;
+        if (!action) {
+            this.setState('closed');
+            return;
+        }
+
+        this.stopOthers(action);
+        if (action === this.openAction) {
+            // Reverse from the current time (end of the clip if it had finished and clamped).
+            if (!interruptOpening) action.time = action.getClip().duration;
+            action.paused = false;
+            action.timeScale = -1;
+            action.enabled = true;
+            action.play();
+        } else {
+            action.reset();
+            action.timeScale = 1;
+            action.play();
+        }
+        this.current = action;
+        this.setState('closing');
+    }
+
+    /** Jump to closed without animating (e.g. the portal was removed). */
+    public resetClosed() {
+        this.mixer.stopAllAction();
+        this.current = null;
+        this.setState('closed');
+    }
+
+    public update(deltaSeconds: number) {
+        // A long pause (tab hidden, session paused) shouldn't skip the whole animation in one frame.
+        this.mixer.update(Math.min(Math.max(deltaSeconds, 0), 0.1));
+    }
+
+    private createAction(clip: THREE.AnimationClip, loop: boolean) {
+        const action = this.mixer.clipAction(clip);
+        action.setLoop(loop ? THREE.LoopRepeat : THREE.LoopOnce, loop ? Infinity : 1);
+        action.clampWhenFinished = !loop;
+        return action;
+    }
+
+    private stopOthers(keep: THREE.AnimationAction) {
+        for (const action of [this.openAction, this.closeAction, this.idleAction]) {
+            if (action && action !== keep) action.stop();
+        }
+    }
+
+    private onFinished(action: THREE.AnimationAction) {
+        if (action !== this.current) return;
+        if (this.doorState === 'opening') {
+            this.setState('open');
+            // The open clip stays clamped on its last frame underneath, so idle only needs to animate extras.
+            this.idleAction?.reset().play();
+        } else if (this.doorState === 'closing') {
+            this.setState('closed');
+        }
+    }
+
+    private setState(state: DoorState) {
+        if (state === this.doorState) return;
+        this.doorState = state;
+        this.dispatchEvent({ type: 'statechange', state });
+    }
+}
+
+function findClip(clips: THREE.AnimationClip[], name: string | undefined, role: string): THREE.AnimationClip | null {
+    if (name) {
+        const exact = clips.find((clip) => clip.name === name);
+        if (exact) return exact;
+        log.warn(`No clip named "${name}" for ${role}; falling back to name matching`);
+    }
+    return clips.find((clip) => clip.name.toLowerCase().includes(role)) ?? null;
+}
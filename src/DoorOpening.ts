@@ -0,0 +1,107 @@
+import * as THREE from 'three';
+import type { PortalConfigLayer } from './PortalConfig';
+import { createLogger } from './Logger';
+
+// Reads the portal opening from the door GLB, so swapping `VITE_DOOR_URL` doesn't need retuned constants.
+// Two ways for an asset to describe its opening (both optional, extras win per key):
+// - A node named "opening" (also "portal_opening" / "PortalOpening"): its mesh bounds, measured in portal
+//   space, give openingWidth/Height/CenterX/BottomY, and its triangles become the opening outline
+//   (`openingShape: mesh`), so arched/round doors only need a matching cap mesh. The node is a marker and
+//   gets hidden.
+// - glTF `extras.portal` on any node (GLTFLoader exposes it as `userData.portal`): PortalConfig keys,
+//   e.g. `{ "openingWidth": 0.9, "openingHeight": 2.05, "fitPadding": 0.8 }`.
+// A derived opening is exact, so it also resets the scale/offset fine-tuning meant for the fallback constants.
+
+const log = createLogger('DoorOpening');
+
+const OPENING_NODE_NAMES = ['opening', 'portal_opening', 'portalopening'];
+
+export interface DoorOpening {
+    layer: PortalConfigLayer;
+    // Opening triangles flattened onto the portal plane (portal space), for `openingShape: mesh`.
+    outline: THREE.BufferGeometry | null;
+}
+
+/**
+ * Build the `door` config layer (and outline) for a loaded door model. `portalSpace` is the object the mask
+ * lives in (the portal group); the door must already be attached under it. Returns null if the asset has
+ * no opening information.
+ */
+export function readDoorOpening(door: THREE.Object3D, portalSpace: THREE.Object3D): DoorOpening | null {
+    portalSpace.updateMatrixWorld(true);
+
+    const openingNode = findOpeningNode(door);
+    const values: Record<string, unknown> = {};
+    let outline: THREE.BufferGeometry | null = null;
+    if (openingNode) {
+        const measured = measureOpening(openingNode, portalSpace);
+        if (measured) {
+            Object.assign(values, measured.values);
+            values.openingShape = 'mesh';
+            outline = measured.outline;
+            openingNode.visible = false;
+        } else {
+            log.warn(`"${openingNode.name}" node has no mesh bounds; ignoring it`);
+        }
+    }
+
+    const extras: Record<string, unknown> = {};
+    door.traverse((node) => {
+        const portal = node.userData?.portal;
+        if (portal && typeof portal === 'object' && !Array.isArray(portal)) Object.assign(extras, portal);
+    });
+    Object.assign(values, extras);
+
+    if (Object.keys(values).length === 0) return null;
+    if ('openingWidth' in values || 'openingHeight' in values) {
+        if (!('openingScale' in values)) values.openingScale = 1;
+        if (!('openingOffsetX' in values)) values.openingOffsetX = 0;
+    }
+    return { layer: { source: 'door', values }, outline };
+}
+
+function findOpeningNode(door: THREE.Object3D): THREE.Object3D | null {
+    const nodes: THREE.Object3D[] = [];
+    door.traverse((node) => {
+        if (OPENING_NODE_NAMES.includes(node.name.toLowerCase())) nodes.push(node);
+    });
+    return nodes[0] ?? null;
+}
+
+function measureOpening(node: THREE.Object3D, portalSpace: THREE.Object3D) {
+    const toPortal = new THREE.Matrix4().copy(portalSpace.matrixWorld).invert();
+    const relative = new THREE.Matrix4();
+    const box = new THREE.Box3();
+    const vertex = new THREE.Vector3();
+    // Non-indexed triangle soup, z dropped (the mask is flat on the portal plane).
+    const positions: number[] = [];
+
+    node.traverse((child) => {
+        const mesh = child as THREE.Mesh;
+        if (!mesh.isMesh || !mesh.geometry) return;
+        const position = mesh.geometry.getAttribute('position');
+        if (!position) return;
+        const index = mesh.geometry.getIndex();
+        relative.multiplyMatrices(toPortal, mesh.matrixWorld);
+        const count = index ? index.count : position.count;
+        for (let i = 0; i < count - (count % 3); i++) {
+            vertex.fromBufferAttribute(position, index ? index.getX(i) : i).applyMatrix4(relative);
+            box.expandByPoint(vertex);
+            positions.push(vertex.x, vertex.y, 0);
+        }
+    });
+
+    if (box.isEmpty() || positions.length === 0) return null;
+    const size = box.getSize(new THREE.Vector3());
+    const outline = new THREE.BufferGeometry();
+    outline.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    return {
+        values: {
+            openingWidth: size.x,
+            openingHeight: size.y,
+            openingCenterX: (box.min.x + box.max.x) / 2,
+            openingBottomY: box.min.y,
+        },
+        outline,
+    };
+}
@@ -0,0 +1,19 @@
+// Where the door GLB comes from. Shared by PortalSystem and the service worker precache step in
+// vite.config.ts (which runs in Node), so the env is passed in and this module has no other imports.
+
+export const DEFAULT_DOOR_URL = 'https://glb.keithhe.com/ar/door/door-84s5k3c8k4.glb';
+
+export interface DoorUrlEnv {
+    VITE_DOOR_URL?: string;
+    VITE_ASSETS_URL?: string;
+}
+
+/** `VITE_DOOR_URL`, else `door_frame.glb` under `VITE_ASSETS_URL`, else the default door. */
+export function resolveDoorUrl(env: DoorUrlEnv): string {
+    if (env.VITE_DOOR_URL) return env.VITE_DOOR_URL;
+    const baseUrl = env.VITE_ASSETS_URL;
+    if (!baseUrl) return DEFAULT_DOOR_URL;
+    const slash = baseUrl.endsWith('/') ? '' : '/';
+    // Standard name when only a generic asset base is configured.
+    return `${baseUrl}${slash}door_frame.glb`;
+}
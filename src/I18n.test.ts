@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getLocale, localize, onLocaleChange, parseLocale, setLocale, t } from './I18n';
+import type { MessageKey } from './I18n';
+
+// Node has no DOM: setLocale() re-applies `data-i18n` markup, so give it an empty document.
+beforeEach(() => {
+    vi.stubGlobal('document', { documentElement: { lang: '' }, querySelectorAll: () => [] });
+});
+
+afterEach(() => {
+    setLocale('en');
+    vi.unstubAllGlobals();
+});
+
+describe('t', () => {
+    it('starts in English without a browser to detect from', () => {
+        expect(getLocale()).toBe('en');
+        expect(t('start.enterAR')).toBe('Enter AR');
+    });
+
+    it('fills {name} placeholders from params', () => {
+        expect(t('door.next', { current: 2, total: 3 })).toBe('Door 2/3');
+        expect(t('loading.failed', { message: 'timeout' })).toBe('Failed to load: timeout\nTap to go back');
+    });
+
+    it('leaves placeholders without a param as-is', () => {
+        expect(t('door.next', { current: 1 })).toBe('Door 1/{total}');
+        expect(t('capture.stop')).toBe('Stop ({seconds}s)');
+    });
+
+    it('translates in the current locale', () => {
+        setLocale('zh');
+        expect(t('door.next', { current: 1, total: 2 })).toBe('门 1/2');
+    });
+
+    it('falls back to the key for unknown messages', () => {
+        expect(t('missing.key' as MessageKey)).toBe('missing.key');
+        setLocale('zh');
+        expect(t('missing.key' as MessageKey)).toBe('missing.key');
+    });
+});
+
+describe('localize', () => {
+    it('returns plain strings unchanged in every locale', () => {
+        expect(localize('Summon')).toBe('Summon');
+        setLocale('zh');
+        expect(localize('Summon')).toBe('Summon');
+    });
+
+    it('picks the current locale variant', () => {
+        const text = { en: 'Summon', zh: '召唤' };
+        expect(localize(text)).toBe('Summon');
+        setLocale('zh');
+        expect(localize(text)).toBe('召唤');
+    });
+
+    it('falls back to English, then to any variant', () => {
+        setLocale('zh');
+        expect(localize({ en: 'Summon' })).toBe('Summon');
+        setLocale('en');
+        expect(localize({ zh: '召唤' })).toBe('召唤');
+        expect(localize({})).toBe('');
+    });
+});
+
+describe('locale switching', () => {
+    it('notifies listeners on a change only, until unsubscribed', () => {
+        const listener = vi.fn();
+        const unsubscribe = onLocaleChange(listener);
+
+        setLocale('en');
+        expect(listener).not.toHaveBeenCalled();
+        setLocale('zh');
+        expect(listener).toHaveBeenCalledWith('zh');
+
+        unsubscribe();
+        setLocale('en');
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('parses language tags into supported locales', () => {
+        expect(parseLocale('zh-CN')).toBe('zh');
+        expect(parseLocale(' EN_us ')).toBe('en');
+        expect(parseLocale('fr')).toBeNull();
+        expect(parseLocale('')).toBeNull();
+        expect(parseLocale(null)).toBeNull();
+    });
+});
@@ -0,0 +1,242 @@
+import { createLogger } from './Logger';
+
+// UI strings and locale switching.
+// - Message catalogs below; `en` is the reference, other locales must define every key (type-checked).
+// - `t(key, { name: value })` fills `{name}` placeholders; unknown placeholders are left as-is.
+// - Locale: `?lang=` > the user's last choice (localStorage) > `navigator.languages` > English.
+// - Markup opts in with `data-i18n="key"` (text) and `data-i18n-<attr>="key"` (e.g. `data-i18n-aria-label`);
+//   `setLocale()` re-applies those and notifies `onLocaleChange` listeners for text set from code.
+// - Manifest text (scene titles, descriptions, tags, action labels) is `LocalizedText`: one string for every
+//   locale, or per-locale variants resolved with `localize()`.
+
+const log = createLogger('I18n');
+
+export type Locale = 'en' | 'zh';
+
+export const SUPPORTED_LOCALES: readonly Locale[] = ['en', 'zh'];
+
+// Shown in the language switch in its own language.
+export const LOCALE_NAMES: Record<Locale, string> = {
+    en: 'English',
+    zh: '中文',
+};
+
+const STORAGE_KEY = 'portal-locale';
+// Attributes that can be translated through `data-i18n-<attr>`.
+const TRANSLATED_ATTRIBUTES = ['aria-label', 'title', 'alt'];
+
+const en = {
+    'app.documentTitle': 'WebXR Gaussian Splat Portal',
+    'app.title': 'WebXR Portal',
+    'app.language': 'Language',
+    'catalog.carouselLabel': 'Scene selection carousel',
+    'catalog.invalid': 'Scene catalog is invalid',
+    'catalog.loadFailed': 'Scene catalog failed to load',
+
+    'loading.title': 'Loading a parallel universe...',
+    'loading.titleWithScene': 'Loading a parallel universe...\n{title}',
+    'loading.wait': 'Please wait',
+    'loading.downloading': 'Downloading...',
+    'loading.processing': 'Processing splats...',
+    'loading.eta': '~{time} left',
+    'loading.failed': 'Failed to load: {message}\nTap to go back',
+    'loading.switchFailed': 'Could not switch scenes: {message}\nTap to close',
+
+    'start.title': 'Ready to Enter AR',
+    'start.description': 'Camera permission required. Tap to start.',
+    'start.enterAR': 'Enter AR',
+    'start.inline': 'Preview in 3D (no AR)',
+    'start.noWebXR':
+        'WebXR is not available.\nAndroid: make sure the page is served over HTTPS, Chrome supports WebXR and Google Play Services for AR is installed.\niOS: please use WebXR Viewer.',
+    'start.failed': 'Could not start AR: {message}',
+
+    'inline.hint': 'Drag to look · WASD / joystick to walk',
+    'placement.hint': 'Point at the floor · tap to place the door',
+
+    'ar.exit': 'Exit AR',
+    'ar.sceneSelector': 'Scene',
+    'capture.photo': 'Photo',
+    'capture.record': 'Record',
+    'capture.stop': 'Stop ({seconds}s)',
+    'audio.on': 'Sound on',
+    'audio.off': 'Sound off',
+    'door.move': 'Move door',
+    'door.add': 'Add door',
+    'door.next': 'Door {current}/{total}',
+
+    'offline.saving': 'Saving… ✕',
+    'offline.savingPercent': '{percent}% ✕',
+    'offline.cancel': 'Cancel download',
+    'offline.saved': '✓ Offline',
+    'offline.savedHint': 'Available offline (tap to remove)',
+    'offline.save': '⬇ Offline',
+    'offline.saveHint': 'Download for offline use',
+    'offline.saveFailed': 'Could not save "{title}" for offline use:\n{message}',
+    'offline.confirmRemove': 'Remove "{title}" from offline storage?',
+    'offline.confirmRemoveAll': 'Remove all scenes from offline storage?',
+    'offline.remove': 'Remove',
+    'offline.removeAll': 'Remove all',
+    'offline.empty': 'No scenes saved for offline use yet.',
+    'offline.summary': 'Saved scenes: {saved} · Site storage: {used}',
+    'offline.summaryWithQuota': 'Saved scenes: {saved} · Site storage: {used} of {quota}',
+    'offline.unknown': 'unknown',
+    'offline.persistent': ' · persistent',
+    'offline.evictable': ' · may be evicted by the browser',
+
+    'debug.copyBundle': 'Copy debug bundle',
+    'debug.copied': 'Copied ✓',
+    'debug.saved': 'Saved ✓',
+    'debug.copyFailed': 'Export failed',
+};
+
+export type MessageKey = keyof typeof en;
+
+// Text from the scene manifest: `"Summon"` (any locale) or `{ "en": "Summon", "zh": "召唤" }`.
+export type LocalizedText = string | Partial<Record<Locale, string>>;
+
+const zh: Record<MessageKey, string> = {
+    'app.documentTitle': 'WebXR 高斯泼溅传送门',
+    'app.title': 'WebXR 传送门',
+    'app.language': '语言',
+    'catalog.carouselLabel': '场景选择',
+    'catalog.invalid': '场景清单无效',
+    'catalog.loadFailed': '场景清单加载失败',
+
+    'loading.title': '平行宇宙正在加载中...',
+    'loading.titleWithScene': '平行宇宙正在加载中...\n{title}',
+    'loading.wait': '请稍候',
+    'loading.downloading': '正在下载...',
+    'loading.processing': '正在处理场景...',
+    'loading.eta': '剩余约 {time}',
+    'loading.failed': '加载失败：{message}\n点击返回',
+    'loading.switchFailed': '切换失败：{message}\n点击关闭',
+
+    'start.title': '准备进入 AR',
+    'start.description': '需要相机权限，点击开始。',
+    'start.enterAR': '进入 AR',
+    'start.inline': '3D 预览（无 AR）',
+    'start.noWebXR':
+        'WebXR 不可用。\nAndroid: 请确认使用 HTTPS、Chrome 支持 WebXR，并安装 Google Play Services for AR。\niOS: 请使用 WebXR Viewer。',
+    'start.failed': '无法启动 AR：{message}',
+
+    'inline.hint': '拖动查看 · WASD / 摇杆行走',
+    'placement.hint': '对准地面 · 点击放置门',
+
+    'ar.exit': '退出 AR',
+    'ar.sceneSelector': '场景',
+    'capture.photo': '拍照',
+    'capture.record': '录像',
+    'capture.stop': '停止（{seconds} 秒）',
+    'audio.on': '声音：开',
+    'audio.off': '声音：关',
+    'door.move': '移动门',
+    'door.add': '添加门',
+    'door.next': '门 {current}/{total}',
+
+    'offline.saving': '保存中… ✕',
+    'offline.savingPercent': '{percent}% ✕',
+    'offline.cancel': '取消下载',
+    'offline.saved': '✓ 离线',
+    'offline.savedHint': '已可离线使用（点击移除）',
+    'offline.save': '⬇ 离线',
+    'offline.saveHint': '下载以离线使用',
+    'offline.saveFailed': '无法离线保存「{title}」：\n{message}',
+    'offline.confirmRemove': '从离线存储中移除「{title}」？',
+    'offline.confirmRemoveAll': '移除所有离线场景？',
+    'offline.remove': '移除',
+    'offline.removeAll': '全部移除',
+    'offline.empty': '还没有离线保存的场景。',
+    'offline.summary': '已保存场景：{saved} · 站点存储：{used}',
+    'offline.summaryWithQuota': '已保存场景：{saved} · 站点存储：{used} / {quota}',
+    'offline.unknown': '未知',
+    'offline.persistent': ' · 持久存储',
+    'offline.evictable': ' · 可能被浏览器清理',
+
+    'debug.copyBundle': '复制调试包',
+    'debug.copied': '已复制 ✓',
+    'debug.saved': '已保存 ✓',
+    'debug.copyFailed': '导出失败',
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en, zh };
+
+type LocaleListener = (locale: Locale) => void;
+
+let currentLocale: Locale = detectLocale();
+const listeners = new Set<LocaleListener>();
+
+export function getLocale(): Locale {
+    return currentLocale;
+}
+
+/** Translate `key` in the current locale, filling `{name}` placeholders from `params`. */
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+    const template = MESSAGES[currentLocale][key] ?? en[key] ?? key;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+/** Manifest text in the current locale; missing variants fall back to English, then to any variant. */
+export function localize(text: LocalizedText): string {
+    if (typeof text === 'string') return text;
+    return text[currentLocale] ?? text.en ?? Object.values(text).find((variant) => variant) ?? '';
+}
+
+/** Switch the UI language at runtime (remembered for the next visit). */
+export function setLocale(locale: Locale) {
+    try {
+        localStorage.setItem(STORAGE_KEY, locale);
+    } catch {
+        // Private mode: the choice just isn't remembered.
+    }
+    if (locale === currentLocale) return;
+    currentLocale = locale;
+    log.info(`Locale: ${locale}`);
+    applyTranslations();
+    for (const listener of listeners) listener(locale);
+}
+
+/** Re-render code-set text when the language changes. Returns an unsubscribe function. */
+export function onLocaleChange(listener: LocaleListener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+/** Fill every `data-i18n` / `data-i18n-<attr>` element under `root` in the current locale. */
+export function applyTranslations(root: ParentNode = document) {
+    document.documentElement.lang = currentLocale === 'zh' ? 'zh-CN' : 'en';
+    root.querySelectorAll<HTMLElement>('[data-i18n]').forEach((el) => {
+        const key = el.dataset.i18n as MessageKey;
+        if (key in en) el.textContent = t(key);
+        else log.warn(`Unknown message key "${key}"`);
+    });
+    for (const attr of TRANSLATED_ATTRIBUTES) {
+        root.querySelectorAll<HTMLElement>(`[data-i18n-${attr}]`).forEach((el) => {
+            const key = el.getAttribute(`data-i18n-${attr}`) as MessageKey;
+            if (key in en) el.setAttribute(attr, t(key));
+        });
+    }
+}
+
+export function parseLocale(raw: string | null | undefined): Locale | null {
+    if (!raw) return null;
+    const base = raw.trim().toLowerCase().split(/[-_]/)[0];
+    return (SUPPORTED_LOCALES as readonly string[]).includes(base) ? (base as Locale) : null;
+}
+
+function detectLocale(): Locale {
+    if (typeof window === 'undefined') return 'en';
+    const fromUrl = parseLocale(new URLSearchParams(window.location.search).get('lang'));
+    if (fromUrl) return fromUrl;
+    try {
+        const saved = parseLocale(localStorage.getItem(STORAGE_KEY));
+        if (saved) return saved;
+    } catch {
+        // Storage blocked: fall through to the browser language.
+    }
+    const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+    for (const language of preferred) {
+        const locale = parseLocale(language);
+        if (locale) return locale;
+    }
+    return 'en';
+}
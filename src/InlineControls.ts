@@ -0,0 +1,217 @@
+import * as THREE from 'three';
+
+// First-person controls for the non-AR inline preview.
+// - Mouse / touch drag on the canvas: look around (yaw + pitch)
+// - WASD / arrow keys: walk on the floor plane
+// - On-screen joystick (touch devices): walk
+// - A tap (press + release without dragging) is reported through `onTap`, like an XR select in AR
+// Eye height stays fixed so the portal crossing behaves like walking through it in AR.
+
+export interface InlineControlsOptions {
+    eyeHeight?: number;
+    walkSpeed?: number; // m/s
+    lookSpeed?: number; // rad per pixel
+    onTap?: () => void;
+}
+
+const MAX_PITCH = THREE.MathUtils.degToRad(80);
+const JOYSTICK_RADIUS_PX = 48;
+// A press that moves less than this is a tap, not a look drag.
+const TAP_SLOP_PX = 8;
+
+export class InlineControls {
+    private readonly camera: THREE.PerspectiveCamera;
+    private readonly domElement: HTMLElement;
+    private readonly joystick: HTMLElement | null;
+    private readonly joystickKnob: HTMLElement | null;
+    private readonly eyeHeight: number;
+    private readonly walkSpeed: number;
+    private readonly lookSpeed: number;
+    private readonly onTap: (() => void) | null;
+
+    private yaw = 0;
+    private pitch = 0;
+    private readonly keys = new Set<string>();
+    private lookPointerId: number | null = null;
+    private lastLook = { x: 0, y: 0 };
+    private lookDistance = 0;
+    private joystickPointerId: number | null = null;
+    private readonly joystickVector = new THREE.Vector2();
+    private enabled = false;
+
+    private readonly forward = new THREE.Vector3();
+    private readonly right = new THREE.Vector3();
+    private readonly move = new THREE.Vector3();
+
+    constructor(
+        camera: THREE.PerspectiveCamera,
+        domElement: HTMLElement,
+        joystick: HTMLElement | null,
+        options: InlineControlsOptions = {}
+    ) {
+        this.camera = camera;
+        this.domElement = domElement;
+        this.joystick = joystick;
+        this.joystickKnob = joystick?.querySelector('.inline-joystick__knob') ?? null;
+        this.eyeHeight = options.eyeHeight ?? 1.6;
+        this.walkSpeed = options.walkSpeed ?? 1.2;
+        this.lookSpeed = options.lookSpeed ?? 0.004;
+        this.onTap = options.onTap ?? null;
+
+        this.onPointerDown = this.onPointerDown.bind(this);
+        this.onPointerMove = this.onPointerMove.bind(this);
+        this.onPointerUp = this.onPointerUp.bind(this);
+        this.onJoystickDown = this.onJoystickDown.bind(this);
+        this.onJoystickMove = this.onJoystickMove.bind(this);
+        this.onJoystickUp = this.onJoystickUp.bind(this);
+        this.onKeyDown = this.onKeyDown.bind(this);
+        this.onKeyUp = this.onKeyUp.bind(this);
+    }
+
+    /** Put the camera at `position` (y is replaced by eye height), looking along -Z rotated by `yaw`. */
+    public reset(position: THREE.Vector3, yaw = 0) {
+        this.yaw = yaw;
+        this.pitch = 0;
+        this.camera.position.set(position.x, this.eyeHeight, position.z);
+        this.applyRotation();
+    }
+
+    public enable() {
+        if (this.enabled) return;
+        this.enabled = true;
+        this.domElement.style.touchAction = 'none';
+        this.domElement.addEventListener('pointerdown', this.onPointerDown);
+        window.addEventListener('pointermove', this.onPointerMove);
+        window.addEventListener('pointerup', this.onPointerUp);
+        window.addEventListener('pointercancel', this.onPointerUp);
+        window.addEventListener('keydown', this.onKeyDown);
+        window.addEventListener('keyup', this.onKeyUp);
+        if (this.joystick) {
+            this.joystick.style.display = matchMedia('(pointer: coarse)').matches ? 'block' : 'none';
+            this.joystick.addEventListener('pointerdown', this.onJoystickDown);
+            this.joystick.addEventListener('pointermove', this.onJoystickMove);
+            this.joystick.addEventListener('pointerup', this.onJoystickUp);
+            this.joystick.addEventListener('pointercancel', this.onJoystickUp);
+        }
+    }
+
+    public disable() {
+        if (!this.enabled) return;
+        this.enabled = false;
+        this.domElement.style.touchAction = '';
+        this.domElement.removeEventListener('pointerdown', this.onPointerDown);
+        window.removeEventListener('pointermove', this.onPointerMove);
+        window.removeEventListener('pointerup', this.onPointerUp);
+        window.removeEventListener('pointercancel', this.onPointerUp);
+        window.removeEventListener('keydown', this.onKeyDown);
+        window.removeEventListener('keyup', this.onKeyUp);
+        if (this.joystick) {
+            this.joystick.style.display = 'none';
+            this.joystick.removeEventListener('pointerdown', this.onJoystickDown);
+            this.joystick.removeEventListener('pointermove', this.onJoystickMove);
+            this.joystick.removeEventListener('pointerup', this.onJoystickUp);
+            this.joystick.removeEventListener('pointercancel', this.onJoystickUp);
+        }
+        this.keys.clear();
+        this.lookPointerId = null;
+        this.joystickPointerId = null;
+        this.setJoystick(0, 0);
+    }
+
+    public isEnabled() {
+        return this.enabled;
+    }
+
+    public update(deltaSeconds: number) {
+        if (!this.enabled) return;
+
+        let strafe = this.joystickVector.x;
+        let advance = -this.joystickVector.y;
+        if (this.keys.has('KeyW') || this.keys.has('ArrowUp')) advance += 1;
+        if (this.keys.has('KeyS') || this.keys.has('ArrowDown')) advance -= 1;
+        if (this.keys.has('KeyD') || this.keys.has('ArrowRight')) strafe += 1;
+        if (this.keys.has('KeyA') || this.keys.has('ArrowLeft')) strafe -= 1;
+        if (strafe === 0 && advance === 0) return;
+
+        // Walk on the floor plane regardless of pitch.
+        this.forward.set(-Math.sin(this.yaw), 0, -Math.cos(this.yaw));
+        this.right.set(Math.cos(this.yaw), 0, -Math.sin(this.yaw));
+        this.move.set(0, 0, 0).addScaledVector(this.forward, advance).addScaledVector(this.right, strafe);
+        if (this.move.lengthSq() > 1) this.move.normalize();
+
+        // Clamp dt so a backgrounded tab doesn't teleport the user through the door.
+        const dt = Math.min(deltaSeconds, 0.1);
+        this.camera.position.addScaledVector(this.move, this.walkSpeed * dt);
+        this.camera.position.y = this.eyeHeight;
+    }
+
+    private applyRotation() {
+        this.camera.rotation.set(this.pitch, this.yaw, 0, 'YXZ');
+        this.camera.updateMatrixWorld();
+    }
+
+    private onPointerDown(e: PointerEvent) {
+        if (this.lookPointerId !== null) return;
+        this.lookPointerId = e.pointerId;
+        this.lastLook = { x: e.clientX, y: e.clientY };
+        this.lookDistance = 0;
+    }
+
+    private onPointerMove(e: PointerEvent) {
+        if (e.pointerId !== this.lookPointerId) return;
+        const dx = e.clientX - this.lastLook.x;
+        const dy = e.clientY - this.lastLook.y;
+        this.lastLook = { x: e.clientX, y: e.clientY };
+        this.lookDistance += Math.hypot(dx, dy);
+        this.yaw -= dx * this.lookSpeed;
+        this.pitch = THREE.MathUtils.clamp(this.pitch - dy * this.lookSpeed, -MAX_PITCH, MAX_PITCH);
+        this.applyRotation();
+    }
+
+    private onPointerUp(e: PointerEvent) {
+        if (e.pointerId !== this.lookPointerId) return;
+        this.lookPointerId = null;
+        if (e.type === 'pointerup' && this.lookDistance < TAP_SLOP_PX) this.onTap?.();
+    }
+
+    private onJoystickDown(e: PointerEvent) {
+        e.preventDefault();
+        e.stopPropagation();
+        this.joystickPointerId = e.pointerId;
+        this.joystick?.setPointerCapture(e.pointerId);
+        this.onJoystickMove(e);
+    }
+
+    private onJoystickMove(e: PointerEvent) {
+        if (e.pointerId !== this.joystickPointerId || !this.joystick) return;
+        const rect = this.joystick.getBoundingClientRect();
+        const x = (e.clientX - (rect.left + rect.width / 2)) / JOYSTICK_RADIUS_PX;
+        const y = (e.clientY - (rect.top + rect.height / 2)) / JOYSTICK_RADIUS_PX;
+        const len = Math.hypot(x, y);
+        this.setJoystick(len > 1 ? x / len : x, len > 1 ? y / len : y);
+    }
+
+    private onJoystickUp(e: PointerEvent) {
+        if (e.pointerId !== this.joystickPointerId) return;
+        this.joystickPointerId = null;
+        this.setJoystick(0, 0);
+    }
+
+    private setJoystick(x: number, y: number) {
+        this.joystickVector.set(x, y);
+        if (this.joystickKnob) {
+            this.joystickKnob.style.transform = `translate(${x * JOYSTICK_RADIUS_PX}px, ${y * JOYSTICK_RADIUS_PX}px)`;
+        }
+    }
+
+    private onKeyDown(e: KeyboardEvent) {
+        // Don't hijack typing in the scene selector or other inputs.
+        const target = e.target as HTMLElement | null;
+        if (target && (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA')) return;
+        this.keys.add(e.code);
+    }
+
+    private onKeyUp(e: KeyboardEvent) {
+        this.keys.delete(e.code);
+    }
+}
@@ -0,0 +1,102 @@
+import type { SplatLoadProgress } from './SplatDownloader';
+import { t } from './I18n';
+
+const BYTES_PER_MB = 1024 * 1024;
+
+// Thin controller around the `#loading-screen` markup in index.html.
+export class LoadingScreen {
+    private readonly root: HTMLElement | null;
+    private readonly text: HTMLElement | null;
+    private readonly subtext: HTMLElement | null;
+    private readonly progress: HTMLElement | null;
+    private readonly bar: HTMLElement | null;
+    private readonly percent: HTMLElement | null;
+    private readonly bytes: HTMLElement | null;
+    private readonly eta: HTMLElement | null;
+
+    constructor(root: HTMLElement | null = document.getElementById('loading-screen')) {
+        this.root = root;
+        this.text = root?.querySelector('.loading-text') ?? null;
+        this.subtext = root?.querySelector('.loading-subtext') ?? null;
+        this.progress = root?.querySelector('.loading-progress') ?? null;
+        this.bar = root?.querySelector('.loading-progress__bar') ?? null;
+        this.percent = root?.querySelector('.loading-progress__percent') ?? null;
+        this.bytes = root?.querySelector('.loading-progress__bytes') ?? null;
+        this.eta = root?.querySelector('.loading-progress__eta') ?? null;
+    }
+
+    public show(message: string) {
+        if (!this.root) return;
+        this.root.onclick = null;
+        this.root.style.display = 'flex';
+        if (this.text) this.text.textContent = message;
+        if (this.subtext) this.subtext.textContent = t('loading.wait');
+        this.resetProgress();
+    }
+
+    public hide() {
+        if (!this.root) return;
+        this.root.style.display = 'none';
+        this.root.onclick = null;
+    }
+
+    public setProgress(p: SplatLoadProgress) {
+        if (!this.progress) return;
+        this.progress.style.display = 'block';
+
+        if (p.phase === 'processing') {
+            if (this.subtext) this.subtext.textContent = t('loading.processing');
+        } else if (p.phase === 'downloading') {
+            if (this.subtext) this.subtext.textContent = t('loading.downloading');
+        }
+
+        const indeterminate = p.percent === null;
+        this.progress.classList.toggle('is-indeterminate', indeterminate);
+        if (this.bar) this.bar.style.width = indeterminate ? '' : `${p.percent!.toFixed(1)}%`;
+        if (this.percent) this.percent.textContent = indeterminate ? '' : `${Math.floor(p.percent!)}%`;
+
+        if (this.bytes) {
+            const loaded = (p.loadedBytes / BYTES_PER_MB).toFixed(1);
+            this.bytes.textContent =
+                p.totalBytes !== null ? `${loaded} / ${(p.totalBytes / BYTES_PER_MB).toFixed(1)} MB` : `${loaded} MB`;
+        }
+        if (this.eta) {
+            this.eta.textContent =
+                p.phase === 'downloading' && p.etaSeconds !== null ? t('loading.eta', { time: formatEta(p.etaSeconds) }) : '';
+        }
+    }
+
+    /** Show an error and wait for the user to tap the screen; `onDismiss` runs after it hides. */
+    public showError(message: string, onDismiss?: () => void) {
+        if (!this.root) {
+            onDismiss?.();
+            return;
+        }
+        this.root.style.display = 'flex';
+        if (this.text) this.text.textContent = message;
+        if (this.subtext) this.subtext.textContent = '';
+        this.resetProgress();
+        this.root.onclick = () => {
+            this.hide();
+            onDismiss?.();
+        };
+    }
+
+    private resetProgress() {
+        if (this.progress) {
+            this.progress.style.display = 'none';
+            this.progress.classList.remove('is-indeterminate');
+        }
+        if (this.bar) this.bar.style.width = '0%';
+        if (this.percent) this.percent.textContent = '';
+        if (this.bytes) this.bytes.textContent = '';
+        if (this.eta) this.eta.textContent = '';
+    }
+}
+
+function formatEta(seconds: number): string {
+    const s = Math.ceil(seconds);
+    if (s < 60) return `${s}s`;
+    const m = Math.floor(s / 60);
+    return `${m}m ${String(s % 60).padStart(2, '0')}s`;
+}
@@ -0,0 +1,111 @@
+// Leveled, tagged logging.
+// - `createLogger('Tag')` per module; messages still go to the console as `[Tag] message` (devtools / vConsole).
+// - Every recorded entry also lands in an in-memory ring buffer, exported with the debug bundle.
+// - Level threshold: `?logLevel=debug|info|warn|error`, else `debug` while debugging (`?debug=1`, or the older
+//   `?debugPortal=1`), else `info`. Debug-level detail (fit passes, crossing, per-frame state) is skipped
+//   entirely below the threshold.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+    // Epoch milliseconds.
+    time: number;
+    level: LogLevel;
+    tag: string;
+    message: string;
+    // Extra arguments, made JSON-safe when recorded.
+    data?: unknown[];
+}
+
+export interface Logger {
+    readonly tag: string;
+    debug(message: string, ...data: unknown[]): void;
+    info(message: string, ...data: unknown[]): void;
+    warn(message: string, ...data: unknown[]): void;
+    error(message: string, ...data: unknown[]): void;
+    isEnabled(level: LogLevel): boolean;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+const MAX_LOG_ENTRIES = 1000;
+// Nested objects deeper than this (THREE objects, DOM nodes) are cut off in the buffer copy.
+const MAX_DATA_DEPTH = 5;
+const MAX_STRING_LENGTH = 2000;
+
+const entries: LogEntry[] = [];
+let nextIndex = 0;
+
+const debugEnabled = readDebugFlag();
+const minLevel: LogLevel = readLevelParam() ?? (debugEnabled ? 'debug' : 'info');
+
+/** `?debug=1` (or the older `?debugPortal=1`): debug logs, the diagnostics overlay and vConsole. */
+export function isDebugEnabled(): boolean {
+    return debugEnabled;
+}
+
+export function createLogger(tag: string): Logger {
+    const write = (level: LogLevel, message: string, data: unknown[]) => {
+        if (LEVEL_ORDER[level] < LEVEL_ORDER[minLevel]) return;
+        const safeData = data.length > 0 ? data.map((d) => toSafe(d, 0, new WeakSet())) : undefined;
+        record({ time: Date.now(), level, tag, message, data: safeData });
+        const line = message ? `[${tag}] ${message}` : `[${tag}]`;
+        if (level === 'error') console.error(line, ...data);
+        else if (level === 'warn') console.warn(line, ...data);
+        else console.log(line, ...data);
+    };
+    return {
+        tag,
+        debug: (message, ...data) => write('debug', message, data),
+        info: (message, ...data) => write('info', message, data),
+        warn: (message, ...data) => write('warn', message, data),
+        error: (message, ...data) => write('error', message, data),
+        isEnabled: (level) => LEVEL_ORDER[level] >= LEVEL_ORDER[minLevel],
+    };
+}
+
+/** Recorded entries, oldest first. */
+export function getLogEntries(): LogEntry[] {
+    if (entries.length < MAX_LOG_ENTRIES) return entries.slice();
+    return [...entries.slice(nextIndex), ...entries.slice(0, nextIndex)];
+}
+
+function record(entry: LogEntry) {
+    if (entries.length < MAX_LOG_ENTRIES) {
+        entries.push(entry);
+        return;
+    }
+    entries[nextIndex] = entry;
+    nextIndex = (nextIndex + 1) % MAX_LOG_ENTRIES;
+}
+
+// Copy for the buffer: plain JSON values only, no cycles, bounded depth and string length.
+function toSafe(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+    if (value === null || typeof value === 'boolean') return value;
+    if (typeof value === 'number') return Number.isFinite(value) ? value : String(value);
+    if (typeof value === 'string') return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}…` : value;
+    if (typeof value === 'bigint' || typeof value === 'symbol') return String(value);
+    if (typeof value === 'undefined') return null;
+    if (typeof value === 'function') return `[function ${value.name || 'anonymous'}]`;
+    if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack ?? null };
+    if (typeof value !== 'object') return String(value);
+
+    if (seen.has(value)) return '[circular]';
+    if (depth >= MAX_DATA_DEPTH) return Array.isArray(value) ? '[array]' : '[object]';
+    seen.add(value);
+    if (Array.isArray(value)) return value.map((item) => toSafe(item, depth + 1, seen));
+    const out: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) out[key] = toSafe(item, depth + 1, seen);
+    return out;
+}
+
+function readDebugFlag(): boolean {
+    if (typeof window === 'undefined') return false;
+    const params = new URLSearchParams(window.location.search);
+    return params.get('debug') === '1' || params.get('debugPortal') === '1';
+}
+
+function readLevelParam(): LogLevel | null {
+    if (typeof window === 'undefined') return null;
+    const raw = new URLSearchParams(window.location.search).get('logLevel');
+    return raw && raw in LEVEL_ORDER ? (raw as LogLevel) : null;
+}
@@ -0,0 +1,199 @@
+import type { SceneCatalog, SceneEntry } from './SceneCatalog';
+import {
+    clearOffline,
+    getStorageUsage,
+    isAvailableOffline,
+    isOfflineStorageSupported,
+    listOfflineScenes,
+    removeFromOffline,
+    saveForOffline,
+} from './OfflineStore';
+import { isSplatLoadCancelled } from './SplatDownloader';
+import { localize, onLocaleChange, t } from './I18n';
+import { createLogger } from './Logger';
+
+const log = createLogger('OfflinePanel');
+
+const BYTES_PER_MB = 1024 * 1024;
+
+type OfflineState = 'idle' | 'saving' | 'saved';
+
+// UI for offline mode: the per-card "download for offline" toggle and the storage panel in the top bar.
+export class OfflinePanel {
+    private readonly catalog: SceneCatalog;
+    private readonly states = new Map<string, OfflineState>();
+    private readonly downloads = new Map<string, AbortController>();
+    private readonly storageButton: HTMLButtonElement | null;
+    private readonly storagePanel: HTMLElement | null;
+
+    constructor(catalog: SceneCatalog) {
+        this.catalog = catalog;
+        this.storageButton = document.getElementById('storage-button') as HTMLButtonElement | null;
+        this.storagePanel = document.getElementById('storage-panel');
+    }
+
+    public init() {
+        if (!isOfflineStorageSupported()) return;
+
+        document.querySelectorAll<HTMLButtonElement>('.scene-card__offline').forEach((btn) => {
+            const entry = this.catalog.get(btn.dataset.scene ?? '');
+            if (!entry) return;
+            btn.hidden = false;
+            this.renderButton(entry.key);
+            btn.addEventListener('click', (e) => {
+                // Don't let the card underneath start loading the scene.
+                e.preventDefault();
+                e.stopPropagation();
+                void this.toggle(entry);
+            });
+            void isAvailableOffline(entry.splatUrl).then((saved) => {
+                if (this.states.get(entry.key) === 'saving') return;
+                this.states.set(entry.key, saved ? 'saved' : 'idle');
+                this.renderButton(entry.key);
+            });
+        });
+
+        if (this.storageButton) {
+            this.storageButton.hidden = false;
+            this.storageButton.addEventListener('click', () => {
+                if (!this.storagePanel) return;
+                const open = this.storagePanel.style.display !== 'none';
+                this.storagePanel.style.display = open ? 'none' : 'block';
+                if (!open) void this.refreshStorage();
+            });
+        }
+        void this.refreshStorage();
+        onLocaleChange(() => {
+            for (const entry of this.catalog.entries) this.renderButton(entry.key);
+            void this.refreshStorage();
+        });
+    }
+
+    private async toggle(entry: SceneEntry) {
+        const state = this.states.get(entry.key) ?? 'idle';
+        if (state === 'saving') {
+            this.downloads.get(entry.key)?.abort('cancelled');
+            return;
+        }
+        if (state === 'saved') {
+            if (!window.confirm(t('offline.confirmRemove', { title: localize(entry.title) }))) return;
+            await removeFromOffline(entry.splatUrl);
+            this.states.set(entry.key, 'idle');
+            this.renderButton(entry.key);
+            await this.refreshStorage();
+            return;
+        }
+
+        const controller = new AbortController();
+        this.downloads.set(entry.key, controller);
+        this.states.set(entry.key, 'saving');
+        this.renderButton(entry.key);
+        try {
+            await saveForOffline(entry.splatUrl, {
+                signal: controller.signal,
+                onProgress: (p) => this.renderButton(entry.key, p.percent),
+            });
+            this.states.set(entry.key, 'saved');
+        } catch (err) {
+            this.states.set(entry.key, 'idle');
+            if (!isSplatLoadCancelled(err)) {
+                log.error('Save for offline failed:', err);
+                const msg = err instanceof Error ? err.message : String(err);
+                window.alert(t('offline.saveFailed', { title: localize(entry.title), message: msg }));
+            }
+        } finally {
+            this.downloads.delete(entry.key);
+            this.renderButton(entry.key);
+            await this.refreshStorage();
+        }
+    }
+
+    private renderButton(sceneKey: string, percent: number | null = null) {
+        const btn = document.querySelector<HTMLButtonElement>(`.scene-card__offline[data-scene="${CSS.escape(sceneKey)}"]`);
+        if (!btn) return;
+        const state = this.states.get(sceneKey) ?? 'idle';
+        btn.dataset.state = state;
+        if (state === 'saving') {
+            btn.textContent =
+                percent !== null ? t('offline.savingPercent', { percent: Math.floor(percent) }) : t('offline.saving');
+            btn.title = t('offline.cancel');
+        } else if (state === 'saved') {
+            btn.textContent = t('offline.saved');
+            btn.title = t('offline.savedHint');
+        } else {
+            btn.textContent = t('offline.save');
+            btn.title = t('offline.saveHint');
+        }
+    }
+
+    private async refreshStorage() {
+        const [usage, scenes] = await Promise.all([getStorageUsage(), listOfflineScenes()]);
+        const savedBytes = scenes.reduce((sum, s) => sum + s.bytes, 0);
+
+        if (this.storageButton) {
+            this.storageButton.textContent = `💾 ${formatMb(savedBytes)}`;
+        }
+        if (!this.storagePanel || this.storagePanel.style.display === 'none') return;
+
+        const rows = scenes.map((scene) => {
+            const entry = this.catalog.entries.find((e) => e.splatUrl === scene.url);
+            const row = document.createElement('div');
+            row.className = 'storage-panel__row';
+
+            const name = document.createElement('span');
+            name.textContent = entry ? localize(entry.title) : scene.url;
+            const size = document.createElement('span');
+            size.className = 'storage-panel__size';
+            size.textContent = formatMb(scene.bytes);
+            const remove = document.createElement('button');
+            remove.type = 'button';
+            remove.className = 'storage-panel__remove';
+            remove.textContent = t('offline.remove');
+            remove.addEventListener('click', async () => {
+                await removeFromOffline(scene.url);
+                if (entry) {
+                    this.states.set(entry.key, 'idle');
+                    this.renderButton(entry.key);
+                }
+                await this.refreshStorage();
+            });
+
+            row.append(name, size, remove);
+            return row;
+        });
+
+        const summary = document.createElement('div');
+        summary.className = 'storage-panel__summary';
+        const saved = formatMb(savedBytes);
+        const used = usage.usageBytes !== null ? formatMb(usage.usageBytes) : t('offline.unknown');
+        summary.textContent =
+            (usage.quotaBytes !== null
+                ? t('offline.summaryWithQuota', { saved, used, quota: formatMb(usage.quotaBytes) })
+                : t('offline.summary', { saved, used })) + (usage.persisted ? t('offline.persistent') : t('offline.evictable'));
+
+        const empty = document.createElement('div');
+        empty.className = 'storage-panel__empty';
+        empty.textContent = t('offline.empty');
+
+        const clearAll = document.createElement('button');
+        clearAll.type = 'button';
+        clearAll.className = 'storage-panel__clear';
+        clearAll.textContent = t('offline.removeAll');
+        clearAll.disabled = scenes.length === 0;
+        clearAll.addEventListener('click', async () => {
+            if (!window.confirm(t('offline.confirmRemoveAll'))) return;
+            await clearOffline();
+            for (const entry of this.catalog.entries) {
+                if (this.states.get(entry.key) === 'saved') this.states.set(entry.key, 'idle');
+                this.renderButton(entry.key);
+            }
+            await this.refreshStorage();
+        });
+
+        this.storagePanel.replaceChildren(summary, ...(rows.length > 0 ? rows : [empty]), clearAll);
+    }
+}
+
+function formatMb(bytes: number) {
+    return `${(bytes / BYTES_PER_MB).toFixed(bytes >= 100 * BYTES_PER_MB ? 0 : 1)} MB`;
+}
@@ -0,0 +1,122 @@
+import { downloadSplat } from './SplatDownloader';
+import type { SplatProgressCallback } from './SplatDownloader';
+import { createLogger } from './Logger';
+
+// Offline storage for splat scenes (Cache Storage, served back by public/sw.js).
+// Splats are only stored when the user asks for it; the door GLB, images and the app shell are cached by
+// the service worker on its own.
+
+const log = createLogger('OfflineStore');
+
+// Keep in sync with `SPLAT_CACHE` in public/sw.js.
+export const OFFLINE_SPLAT_CACHE = 'portal-splats-v1';
+
+export interface OfflineSceneInfo {
+    url: string;
+    bytes: number;
+}
+
+export interface StorageUsage {
+    usageBytes: number | null;
+    quotaBytes: number | null;
+    // True once the browser granted persistent storage (saved scenes won't be evicted under pressure).
+    persisted: boolean;
+}
+
+export function isOfflineStorageSupported(): boolean {
+    return typeof window !== 'undefined' && 'caches' in window && window.isSecureContext;
+}
+
+/**
+ * Register the service worker. Skipped in dev (Vite serves unbundled modules + HMR) unless `?sw=1` is set.
+ */
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return null;
+    const forced = new URLSearchParams(window.location.search).get('sw') === '1';
+    if (!import.meta.env.PROD && !forced) return null;
+
+    try {
+        const registration = await navigator.serviceWorker.register('./sw.js', { scope: './' });
+        log.info('Service worker registered:', registration.scope);
+        return registration;
+    } catch (err) {
+        log.warn('Service worker registration failed:', err);
+        return null;
+    }
+}
+
+export async function isAvailableOffline(url: string): Promise<boolean> {
+    if (!isOfflineStorageSupported()) return false;
+    const cache = await caches.open(OFFLINE_SPLAT_CACHE);
+    return (await cache.match(url)) !== undefined;
+}
+
+export async function saveForOffline(
+    url: string,
+    options: { onProgress?: SplatProgressCallback; signal?: AbortSignal } = {}
+): Promise<void> {
+    if (!isOfflineStorageSupported()) throw new Error('Offline storage is not available in this browser');
+
+    // Ask once; browsers that refuse still keep the data, just without eviction protection.
+    void requestPersistentStorage();
+
+    const file = await downloadSplat(url, options);
+    const cache = await caches.open(OFFLINE_SPLAT_CACHE);
+    await cache.put(
+        url,
+        new Response(file, {
+            headers: {
+                'Content-Type': 'application/octet-stream',
+                // Lets listOfflineScenes() report sizes without reading the bodies back.
+                'Content-Length': String(file.size),
+            },
+        })
+    );
+    log.info(`Saved for offline: ${url} (${file.size} bytes)`);
+}
+
+export async function removeFromOffline(url: string): Promise<void> {
+    if (!isOfflineStorageSupported()) return;
+    const cache = await caches.open(OFFLINE_SPLAT_CACHE);
+    await cache.delete(url);
+}
+
+export async function clearOffline(): Promise<void> {
+    if (!isOfflineStorageSupported()) return;
+    await caches.delete(OFFLINE_SPLAT_CACHE);
+}
+
+export async function listOfflineScenes(): Promise<OfflineSceneInfo[]> {
+    if (!isOfflineStorageSupported()) return [];
+    const cache = await caches.open(OFFLINE_SPLAT_CACHE);
+    const requests = await cache.keys();
+    const result: OfflineSceneInfo[] = [];
+    for (const request of requests) {
+        const response = await cache.match(request);
+        const length = Number(response?.headers.get('Content-Length'));
+        result.push({ url: request.url, bytes: Number.isFinite(length) ? length : 0 });
+    }
+    return result;
+}
+
+export async function getStorageUsage(): Promise<StorageUsage> {
+    const storage = typeof navigator !== 'undefined' ? navigator.storage : undefined;
+    if (!storage?.estimate) return { usageBytes: null, quotaBytes: null, persisted: false };
+
+    const [estimate, persisted] = await Promise.all([
+        storage.estimate(),
+        storage.persisted ? storage.persisted() : Promise.resolve(false),
+    ]);
+    return { usageBytes: estimate.usage ?? null, quotaBytes: estimate.quota ?? null, persisted };
+}
+
+async function requestPersistentStorage(): Promise<boolean> {
+    const storage = typeof navigator !== 'undefined' ? navigator.storage : undefined;
+    if (!storage?.persist) return false;
+    try {
+        if (storage.persisted && (await storage.persisted())) return true;
+        return await storage.persist();
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,242 @@
+import * as THREE from 'three';
+import type { ManagedPortal, PortalManager } from './PortalManager';
+import { createLogger } from './Logger';
+
+// WebXR anchors for placed portals.
+// - Placing (or moving) a door creates an XRAnchor at the door's pose; every frame the portal group follows
+//   the anchor, so the door stays put while the runtime refines its map.
+// - While the user drags / twists a door the anchor is dropped and re-created once the door has been still
+//   for `REANCHOR_DELAY_MS` (the gesture owns the pose meanwhile).
+// - Persistent anchors (`requestPersistentHandle` / `restorePersistentAnchor`, e.g. Quest Browser): the handle
+//   and the door's scene are saved in localStorage; the next AR session in the same room restores the doors
+//   that haven't been placed by hand yet.
+// Runtimes without the `anchors` feature keep the raw hit-test placement.
+
+const log = createLogger('PortalAnchors');
+
+const STORAGE_KEY = 'portal-anchors-v1';
+const REANCHOR_DELAY_MS = 500;
+
+interface SavedPortalAnchor {
+    // Persistent anchor handle (UUID) from `requestPersistentHandle()`.
+    handle: string;
+    sceneKey: string | null;
+}
+
+interface TrackedPortal {
+    entry: ManagedPortal;
+    anchor: any | null; // XRAnchor
+    // Persistent handle of `anchor` (null if the runtime can't persist or the request is still pending).
+    handle: string | null;
+    // Set while the door is being moved: re-anchor at this time (performance.now()).
+    reanchorAt: number | null;
+    creating: boolean;
+    // Restored from a saved handle; becomes visible on the first tracked pose.
+    restoring: SavedPortalAnchor | null;
+}
+
+export interface PortalAnchorsEventMap {
+    // A saved door was found again: `entry` is placed at its old pose; `sceneKey` is the scene it showed.
+    restored: { entry: ManagedPortal; sceneKey: string | null };
+}
+
+export class PortalAnchors extends THREE.EventDispatcher<PortalAnchorsEventMap> {
+    private readonly portals: PortalManager;
+    private readonly tracked = new Map<ManagedPortal, TrackedPortal>();
+    private session: any = null; // XRSession
+    private supported = false;
+    private persistent = false;
+
+    private readonly anchorMatrix = new THREE.Matrix4();
+
+    constructor(portals: PortalManager) {
+        super();
+        this.portals = portals;
+        for (const entry of portals.all) this.watch(entry);
+        portals.addEventListener('added', ({ entry }) => this.watch(entry));
+    }
+
+    public get isSupported(): boolean {
+        return this.supported;
+    }
+
+    /** Session start: detect support and restore saved doors. */
+    public attach(session: any) {
+        this.session = session;
+        const features: string[] | undefined = session.enabledFeatures;
+        this.supported = !features || features.includes('anchors');
+        this.persistent = this.supported && typeof session.restorePersistentAnchor === 'function';
+        log.info('Anchors:', this.supported ? (this.persistent ? 'persistent' : 'session') : 'unsupported');
+        if (this.persistent) this.restoreSaved();
+    }
+
+    /** Session end: anchors die with the session; saved handles stay for the next one. */
+    public detach() {
+        this.session = null;
+        this.supported = false;
+        this.persistent = false;
+        this.tracked.clear();
+    }
+
+    public update(frame: any, referenceSpace: any) {
+        if (!this.session || !referenceSpace || !this.supported) return;
+        const now = performance.now();
+
+        for (const state of this.tracked.values()) {
+            const group = state.entry.portal.group;
+            if (state.reanchorAt !== null && now >= state.reanchorAt && !state.creating) {
+                state.reanchorAt = null;
+                this.createAnchor(state, frame, referenceSpace);
+            }
+            if (!state.anchor || state.reanchorAt !== null) continue;
+            if (frame.trackedAnchors && !frame.trackedAnchors.has(state.anchor)) continue;
+
+            const pose = frame.getPose(state.anchor.anchorSpace, referenceSpace);
+            if (!pose) continue;
+            this.anchorMatrix.fromArray(pose.transform.matrix);
+            this.anchorMatrix.decompose(group.position, group.quaternion, group.scale);
+
+            if (state.restoring) {
+                const saved = state.restoring;
+                state.restoring = null;
+                group.visible = true;
+                state.entry.portal.resetCrossing();
+                log.info(`Restored door ${state.entry.id} (${saved.sceneKey ?? 'no scene'})`);
+                this.dispatchEvent({ type: 'restored', entry: state.entry, sceneKey: saved.sceneKey });
+            }
+        }
+    }
+
+    private watch(entry: ManagedPortal) {
+        const portal = entry.portal;
+        // Placed by hand (including over a door that was still being restored): anchor the new pose.
+        portal.addEventListener('placed', () => this.scheduleAnchor(entry, 0));
+        portal.addEventListener('moved', () => this.scheduleAnchor(entry, REANCHOR_DELAY_MS));
+        // Keep the saved scene in sync with what the door shows.
+        portal.addEventListener('splatLoaded', () => this.save());
+    }
+
+    private scheduleAnchor(entry: ManagedPortal, delayMs: number) {
+        if (!this.session || !this.supported) return;
+        const state = this.getState(entry);
+        state.restoring = null;
+        this.dropAnchor(state);
+        state.reanchorAt = performance.now() + delayMs;
+    }
+
+    private getState(entry: ManagedPortal): TrackedPortal {
+        let state = this.tracked.get(entry);
+        if (!state) {
+            state = { entry, anchor: null, handle: null, reanchorAt: null, creating: false, restoring: null };
+            this.tracked.set(entry, state);
+        }
+        return state;
+    }
+
+    private createAnchor(state: TrackedPortal, frame: any, referenceSpace: any) {
+        if (typeof frame.createAnchor !== 'function' || typeof XRRigidTransform === 'undefined') {
+            this.supported = false;
+            log.warn('frame.createAnchor unavailable; doors stay unanchored');
+            return;
+        }
+        const group = state.entry.portal.group;
+        const { x, y, z } = group.position;
+        const q = group.quaternion;
+        const session = this.session;
+        state.creating = true;
+        Promise.resolve(
+            frame.createAnchor(new XRRigidTransform({ x, y, z }, { x: q.x, y: q.y, z: q.z, w: q.w }), referenceSpace)
+        )
+            .then(async (anchor: any) => {
+                state.creating = false;
+                // Moved again (or the session ended) while the anchor was being created.
+                if (this.session !== session || state.reanchorAt !== null) {
+                    anchor.delete?.();
+                    return;
+                }
+                state.anchor = anchor;
+                if (this.persistent && typeof anchor.requestPersistentHandle === 'function') {
+                    state.handle = await anchor.requestPersistentHandle();
+                    this.save();
+                }
+            })
+            .catch((err: unknown) => {
+                state.creating = false;
+                log.warn('Anchor creation failed:', err);
+            });
+    }
+
+    private dropAnchor(state: TrackedPortal) {
+        state.anchor?.delete?.();
+        state.anchor = null;
+        if (!state.handle) return;
+        if (this.session && typeof this.session.deletePersistentAnchor === 'function') {
+            this.session.deletePersistentAnchor(state.handle).catch(() => undefined);
+        }
+        state.handle = null;
+        this.save();
+    }
+
+    private restoreSaved() {
+        const saved = readSaved();
+        if (saved.length === 0) return;
+        const session = this.session;
+
+        saved.forEach((record, index) => {
+            // Door 1 always exists; later ones are created as needed (within the portal limit).
+            const entry = this.portals.all[index] ?? this.portals.add();
+            if (!entry || entry.portal.group.visible) return;
+            const state = this.getState(entry);
+            state.restoring = record;
+            state.handle = record.handle;
+            session
+                .restorePersistentAnchor(record.handle)
+                .then((anchor: any) => {
+                    if (this.session !== session || state.restoring !== record) {
+                        anchor.delete?.();
+                        return;
+                    }
+                    state.anchor = anchor;
+                })
+                .catch((err: unknown) => {
+                    log.warn(`Could not restore door ${entry.id}:`, err);
+                    if (state.restoring === record) state.restoring = null;
+                    state.handle = null;
+                    this.save();
+                });
+        });
+        // Restoring added doors; placement continues with the first one.
+        this.portals.setActive(this.portals.all[0]);
+    }
+
+    private save() {
+        if (!this.persistent) return;
+        const records: SavedPortalAnchor[] = [];
+        for (const entry of this.portals.all) {
+            const state = this.tracked.get(entry);
+            if (state?.handle) records.push({ handle: state.handle, sceneKey: entry.sceneKey });
+        }
+        writeSaved(records);
+    }
+}
+
+function readSaved(): SavedPortalAnchor[] {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+        if (!Array.isArray(parsed)) return [];
+        return parsed.filter(
+            (r): r is SavedPortalAnchor =>
+                typeof r?.handle === 'string' && (r.sceneKey === null || typeof r.sceneKey === 'string')
+        );
+    } catch {
+        return [];
+    }
+}
+
+function writeSaved(records: SavedPortalAnchor[]) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+    } catch (err) {
+        log.warn('Could not save anchors:', err);
+    }
+}
@@ -0,0 +1,224 @@
+import * as THREE from 'three';
+import { getPortalOpening } from './PortalConfig';
+import type { ManagedPortal, PortalManager } from './PortalManager';
+import type { SceneAudio, SceneCatalog, SceneSound } from './SceneCatalog';
+import { createLogger } from './Logger';
+
+// Per-scene sound, attached to the door that shows the scene (manifest `audio`, see SceneCatalog).
+// - Ambient: from outside it's a PositionalAudio in the doorway, so the world is heard *through* the door
+//   (quieter while the door is closed); after crossing it fades over to a plain (non-positional) copy that
+//   surrounds the user. Both copies loop in sync.
+// - Emitters: PositionalAudio children of the portal group at fixed door-space positions; muffled from
+//   outside, full volume inside.
+// - Nothing is created before `unlock()` is called from a user gesture (autoplay policy), and a door's
+//   sounds only fade in once its splat has loaded.
+// - Mute is a fade on the listener's master gain, remembered in localStorage.
+
+const log = createLogger('PortalAudio');
+
+const MUTED_STORAGE_KEY = 'portal-audio-muted';
+// Time constant for volume fades (s); ~3× this until a fade is practically done.
+const FADE_TIME_CONSTANT = 0.25;
+const CLOSED_DOOR_GAIN = 0.2;
+const OUTSIDE_EMITTER_GAIN = 0.5;
+// The doorway source sits a little behind the opening plane, facing out.
+const DOORWAY_DEPTH = 0.3;
+
+interface Soundscape {
+    sceneKey: string;
+    spec: SceneAudio;
+    root: THREE.Group;
+    doorway: THREE.PositionalAudio | null;
+    surround: THREE.Audio | null;
+    emitters: { audio: THREE.PositionalAudio; volume: number }[];
+    disposed: boolean;
+}
+
+export class PortalAudio {
+    private readonly portals: PortalManager;
+    private readonly catalog: SceneCatalog;
+    private listener: THREE.AudioListener | null = null;
+    private readonly soundscapes = new Map<ManagedPortal, Soundscape>();
+    private readonly buffers = new Map<string, Promise<AudioBuffer>>();
+    // Last gain target per node, so fades are only scheduled when something changed.
+    private readonly gainTargets = new WeakMap<GainNode, number>();
+    private isMuted: boolean = readMuted();
+
+    constructor(portals: PortalManager, catalog: SceneCatalog) {
+        this.portals = portals;
+        this.catalog = catalog;
+        document.addEventListener('visibilitychange', () => {
+            const context = this.listener?.context;
+            if (!context) return;
+            if (document.hidden) void context.suspend();
+            else void context.resume();
+        });
+    }
+
+    /** True if any scene in the catalog declares sound (the mute control is pointless otherwise). */
+    public get hasSceneAudio(): boolean {
+        return this.catalog.entries.some((entry) => entry.audio);
+    }
+
+    public get muted(): boolean {
+        return this.isMuted;
+    }
+
+    /** Create / resume the AudioContext. Call from a user gesture handler (click, Enter AR). */
+    public unlock() {
+        if (!this.listener) {
+            this.listener = new THREE.AudioListener();
+            this.listener.gain.gain.value = this.isMuted ? 0 : 1;
+            log.info('Audio context created');
+        }
+        const context = this.listener.context;
+        if (context.state !== 'running') {
+            context.resume().catch((err) => log.warn('Could not resume audio:', err));
+        }
+    }
+
+    public setMuted(muted: boolean) {
+        this.isMuted = muted;
+        try {
+            localStorage.setItem(MUTED_STORAGE_KEY, muted ? '1' : '0');
+        } catch {
+            // Private mode: the setting just isn't remembered.
+        }
+        if (this.listener) this.fadeTo(this.listener.gain, muted ? 0 : 1);
+    }
+
+    /** Per frame: follow the viewer and fade each door's sounds to match where the user is. */
+    public update(camera: THREE.Camera) {
+        const listener = this.listener;
+        if (!listener) return;
+        camera.matrixWorld.decompose(listener.position, listener.quaternion, listener.scale);
+        listener.updateMatrixWorld(true);
+
+        for (const entry of this.portals.all) {
+            let soundscape = this.soundscapes.get(entry) ?? null;
+            if (soundscape?.sceneKey !== entry.sceneKey) {
+                if (soundscape) this.dispose(entry, soundscape);
+                soundscape = this.create(entry, listener);
+            }
+            if (soundscape) this.updateGains(entry, soundscape);
+        }
+    }
+
+    private create(entry: ManagedPortal, listener: THREE.AudioListener): Soundscape | null {
+        const spec = entry.sceneKey ? this.catalog.get(entry.sceneKey)?.audio : undefined;
+        if (!entry.sceneKey || !spec) return null;
+
+        const soundscape: Soundscape = {
+            sceneKey: entry.sceneKey,
+            spec,
+            root: new THREE.Group(),
+            doorway: null,
+            surround: null,
+            emitters: [],
+            disposed: false,
+        };
+        soundscape.root.name = 'PortalAudio';
+        entry.portal.group.add(soundscape.root);
+        this.soundscapes.set(entry, soundscape);
+
+        const ambient = spec.ambient;
+        if (ambient) {
+            void this.loadBuffer(ambient.url).then((buffer) => {
+                if (soundscape.disposed) return;
+                const doorway = new THREE.PositionalAudio(listener);
+                // Loudest straight out of the doorway, fainter from beside / behind the door.
+                doorway.setDirectionalCone(120, 300, 0.3);
+                doorway.setRefDistance(1);
+                soundscape.root.add(doorway);
+                soundscape.doorway = doorway;
+                soundscape.surround = new THREE.Audio(listener);
+                this.start(doorway, buffer, ambient);
+                this.start(soundscape.surround, buffer, ambient);
+            }, ignoreFailedLoad);
+        }
+        for (const emitterSpec of spec.emitters) {
+            void this.loadBuffer(emitterSpec.url).then((buffer) => {
+                if (soundscape.disposed) return;
+                const emitter = new THREE.PositionalAudio(listener);
+                emitter.position.fromArray(emitterSpec.position);
+                emitter.setRefDistance(emitterSpec.refDistance);
+                soundscape.root.add(emitter);
+                soundscape.emitters.push({ audio: emitter, volume: emitterSpec.volume });
+                this.start(emitter, buffer, emitterSpec);
+            }, ignoreFailedLoad);
+        }
+        log.info(`Door ${entry.id}: sound for ${entry.sceneKey}`);
+        return soundscape;
+    }
+
+    private start(audio: THREE.Audio<AudioNode>, buffer: AudioBuffer, sound: SceneSound) {
+        // Silent until the first update() decides how loud it should be.
+        audio.gain.gain.value = 0;
+        audio.setBuffer(buffer);
+        audio.setLoop(sound.loop);
+        audio.play();
+    }
+
+    private updateGains(entry: ManagedPortal, soundscape: Soundscape) {
+        const portal = entry.portal;
+        const audible = portal.group.visible && !portal.isLoadingSplat() ? 1 : 0;
+        const inside = portal.isInside();
+        const door = inside || portal.doorState !== 'closed' ? 1 : CLOSED_DOOR_GAIN;
+        const ambientVolume = soundscape.spec.ambient?.volume ?? 0;
+
+        if (soundscape.doorway) {
+            const opening = getPortalOpening(portal.getConfig().config);
+            soundscape.doorway.position.set(opening.offsetX, opening.bottomY + opening.h / 2, -DOORWAY_DEPTH);
+            this.fadeTo(soundscape.doorway.gain, inside ? 0 : audible * door * ambientVolume);
+        }
+        if (soundscape.surround) this.fadeTo(soundscape.surround.gain, inside ? audible * ambientVolume : 0);
+
+        for (const { audio, volume } of soundscape.emitters) {
+            this.fadeTo(audio.gain, audible * volume * (inside ? 1 : OUTSIDE_EMITTER_GAIN * door));
+        }
+    }
+
+    private fadeTo(gain: GainNode, target: number) {
+        if (this.gainTargets.get(gain) === target) return;
+        this.gainTargets.set(gain, target);
+        gain.gain.setTargetAtTime(target, gain.context.currentTime, FADE_TIME_CONSTANT);
+    }
+
+    private dispose(entry: ManagedPortal, soundscape: Soundscape) {
+        soundscape.disposed = true;
+        const emitters = soundscape.emitters.map(({ audio }) => audio);
+        for (const audio of [soundscape.doorway, soundscape.surround, ...emitters]) {
+            if (!audio) continue;
+            if (audio.isPlaying) audio.stop();
+            audio.disconnect();
+            audio.gain.disconnect();
+        }
+        soundscape.root.removeFromParent();
+        this.soundscapes.delete(entry);
+    }
+
+    private loadBuffer(url: string): Promise<AudioBuffer> {
+        let pending = this.buffers.get(url);
+        if (!pending) {
+            pending = new THREE.AudioLoader().loadAsync(url);
+            pending.catch((err) => {
+                log.warn(`Could not load ${url}:`, err);
+                // Let a later scene switch retry.
+                this.buffers.delete(url);
+            });
+            this.buffers.set(url, pending);
+        }
+        return pending;
+    }
+}
+
+// Already reported by loadBuffer(); the door just stays silent.
+function ignoreFailedLoad() {}
+
+function readMuted(): boolean {
+    try {
+        return localStorage.getItem(MUTED_STORAGE_KEY) === '1';
+    } catch {
+        return false;
+    }
+}
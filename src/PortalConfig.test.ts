@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import {
+    DEFAULT_PORTAL_CONFIG,
+    envPortalConfigLayer,
+    getPortalOpening,
+    resolvePortalConfig,
+    urlPortalConfigLayer,
+} from './PortalConfig';
+import type { PortalConfigLayer, PortalConfigSource } from './PortalConfig';
+
+// Layer order as PortalSystem resolves it: defaults → door → env → scene → url.
+
+const layer = (source: PortalConfigSource, values: Record<string, unknown>): PortalConfigLayer => ({ source, values });
+
+describe('resolvePortalConfig', () => {
+    it('returns the defaults without layers', () => {
+        const { config, sources, warnings } = resolvePortalConfig([]);
+        expect(config).toEqual(DEFAULT_PORTAL_CONFIG);
+        expect(new Set(Object.values(sources))).toEqual(new Set(['default']));
+        expect(warnings).toEqual([]);
+    });
+
+    it('lets later layers win and records where each value came from', () => {
+        const { config, sources, warnings } = resolvePortalConfig([
+            layer('door', { openingWidth: 0.8, openingHeight: 2, openingScale: 0.9 }),
+            envPortalConfigLayer({ VITE_PORTAL_OPENING_HEIGHT: '1.9', VITE_PORTAL_FIT_PADDING: '0.5' }),
+            layer('scene', { fitPadding: 0.7, contentMode: 'walkIn' }),
+            urlPortalConfigLayer('?openingScale=0.6&contentMode=fit'),
+        ]);
+        expect(warnings).toEqual([]);
+        expect(config).toMatchObject({
+            openingWidth: 0.8,
+            openingHeight: 1.9,
+            openingScale: 0.6,
+            fitPadding: 0.7,
+            contentMode: 'fit',
+        });
+        expect(sources).toMatchObject({
+            openingWidth: 'door',
+            openingHeight: 'env',
+            openingScale: 'url',
+            fitPadding: 'scene',
+            contentMode: 'url',
+            anchor: 'default',
+        });
+    });
+
+    it('treats unset env vars and empty URL params as not provided', () => {
+        const { config, warnings } = resolvePortalConfig([
+            layer('scene', { openingScale: 0.5 }),
+            envPortalConfigLayer({ VITE_PORTAL_OPENING_SCALE: '' }),
+            urlPortalConfigLayer('?openingScale=&unrelated=1'),
+        ]);
+        expect(config.openingScale).toBe(0.5);
+        expect(warnings).toEqual([]);
+    });
+
+    it('clamps numbers to their range', () => {
+        const { config, sources, warnings } = resolvePortalConfig([layer('scene', { openingScale: 3, fitPadding: '0.01' })]);
+        expect(config.openingScale).toBe(1);
+        expect(config.fitPadding).toBe(0.1);
+        expect(sources.openingScale).toBe('scene');
+        expect(warnings.map((w) => [w.source, w.key])).toEqual([
+            ['scene', 'openingScale'],
+            ['scene', 'fitPadding'],
+        ]);
+        expect(warnings[0].message).toMatch(/outside \[0\.1, 1\], clamped to 1/);
+    });
+
+    it('skips unusable values and keeps the lower layer', () => {
+        const { config, sources, warnings } = resolvePortalConfig([
+            layer('scene', { openingScale: 0.5, anchor: 'centerBottom', spawnPoint: [1, 0, 2] }),
+            layer('url', { openingScale: 'big', anchor: 'top', spawnPoint: '1,2', openingWidht: 1 }),
+        ]);
+        expect(config.openingScale).toBe(0.5);
+        expect(config.anchor).toBe('centerBottom');
+        expect(config.spawnPoint).toEqual([1, 0, 2]);
+        expect(sources.openingScale).toBe('scene');
+        expect(warnings.map((w) => w.key)).toEqual(['openingScale', 'anchor', 'spawnPoint', 'openingWidht']);
+        expect(warnings[3].message).toBe('unknown portal setting');
+    });
+
+    it('reads vec3 values from arrays and "x,y,z" strings', () => {
+        expect(resolvePortalConfig([layer('scene', { spawnPoint: [1, 2, 3] })]).config.spawnPoint).toEqual([1, 2, 3]);
+        expect(resolvePortalConfig([urlPortalConfigLayer('?spawnPoint=1,-2,0.5')]).config.spawnPoint).toEqual([1, -2, 0.5]);
+    });
+
+    it('falls back to the default thresholds unless outsideThresholdZ > insideThresholdZ', () => {
+        const { config, sources, warnings } = resolvePortalConfig([
+            layer('scene', { outsideThresholdZ: 0, insideThresholdZ: 0 }),
+        ]);
+        expect(config.outsideThresholdZ).toBe(DEFAULT_PORTAL_CONFIG.outsideThresholdZ);
+        expect(config.insideThresholdZ).toBe(DEFAULT_PORTAL_CONFIG.insideThresholdZ);
+        expect(sources.outsideThresholdZ).toBe('default');
+        expect(sources.insideThresholdZ).toBe('default');
+        expect(warnings).toEqual([expect.objectContaining({ source: 'scene', key: 'outsideThresholdZ' })]);
+
+        const valid = resolvePortalConfig([layer('url', { outsideThresholdZ: 0.3, insideThresholdZ: -0.2 })]);
+        expect(valid.config).toMatchObject({ outsideThresholdZ: 0.3, insideThresholdZ: -0.2 });
+        expect(valid.warnings).toEqual([]);
+    });
+
+    it('falls back to the default door distances unless doorCloseDistance > doorOpenDistance', () => {
+        // Only the open distance is overridden; the warning blames the layer that set it.
+        const { config, sources, warnings } = resolvePortalConfig([layer('env', { doorOpenDistance: 3 })]);
+        expect(config.doorOpenDistance).toBe(DEFAULT_PORTAL_CONFIG.doorOpenDistance);
+        expect(config.doorCloseDistance).toBe(DEFAULT_PORTAL_CONFIG.doorCloseDistance);
+        expect(sources.doorOpenDistance).toBe('default');
+        expect(warnings).toEqual([expect.objectContaining({ source: 'env', key: 'doorCloseDistance' })]);
+
+        const valid = resolvePortalConfig([layer('env', { doorOpenDistance: 3, doorCloseDistance: 4 })]);
+        expect(valid.config).toMatchObject({ doorOpenDistance: 3, doorCloseDistance: 4 });
+        expect(valid.warnings).toEqual([]);
+    });
+});
+
+describe('getPortalOpening', () => {
+    it('keeps the left edge fixed with the bottomLeft anchor', () => {
+        const config = { ...DEFAULT_PORTAL_CONFIG, openingWidth: 1, openingHeight: 2, openingScale: 0.5, openingOffsetX: 0 };
+        const opening = getPortalOpening(config);
+        expect(opening.w).toBeCloseTo(0.5);
+        expect(opening.h).toBeCloseTo(1);
+        expect(opening.offsetX - opening.w / 2).toBeCloseTo(-0.5);
+    });
+
+    it('centres the opening with the centerBottom anchor, ignoring openingOffsetX', () => {
+        const config = { ...DEFAULT_PORTAL_CONFIG, anchor: 'centerBottom' as const, openingCenterX: 0.2, openingBottomY: 0.1 };
+        expect(getPortalOpening(config)).toMatchObject({ offsetX: 0.2, bottomY: 0.1 });
+    });
+});
@@ -0,0 +1,316 @@
+// Portal tuning (opening size/alignment, fit, crossing thresholds) as one typed config.
+// Layers, lowest to highest precedence:
+//   defaults → door GLB (see DoorOpening) → env (`VITE_PORTAL_*`, build time) → scene manifest (`portal`
+//   object) → URL params
+// Every layer is validated the same way: numbers are clamped to their range, anything unusable is skipped
+// (the lower layer's value stays) and reported as a warning.
+
+import { DEFAULT_OPENING_SHAPE, parseOpeningShape } from './PortalOpeningShape';
+import type { OpeningShapeSpec } from './PortalOpeningShape';
+import { parseSplatCrop } from './SplatBounds';
+import type { SplatCrop } from './SplatBounds';
+
+export type PortalAnchor = 'centerBottom' | 'bottomLeft';
+
+// `fit`: shrink the whole splat into the opening (diorama). `walkIn`: authored metric scale, so stepping
+// through the door puts you inside a life-size space.
+export type PortalContentMode = 'fit' | 'walkIn';
+
+// Which splat-space axis points up (COLMAP-style captures are often -y up).
+export type UpAxis = '+y' | '-y' | '+z' | '-z' | '+x' | '-x';
+
+export interface PortalConfig {
+    // Opening size in meters before `openingScale` (tuned to sit INSIDE the visible door frame).
+    openingWidth: number;
+    openingHeight: number;
+    // Where the unscaled opening sits in portal space (pivot is the door's center-bottom).
+    openingCenterX: number;
+    openingBottomY: number;
+    // Shrinks the opening (mask + fit target). With the `bottomLeft` anchor the left edge stays put.
+    openingScale: number;
+    // Horizontal fine-tune in meters. Positive moves opening/content to the RIGHT.
+    openingOffsetX: number;
+    // Outline inside the opening box (rect, arch, ellipse, polygon, SVG path or the door GLB's mesh).
+    openingShape: OpeningShapeSpec;
+    // How the splat content is aligned inside the opening (pivot is always center-bottom).
+    anchor: PortalAnchor;
+    // Fit padding (margin so the splat doesn't touch the frame edges).
+    fitPadding: number;
+    // Fraction of splat centers ignored at each end per axis when measuring the content (floaters).
+    boundsPercentile: number;
+    // Splat-space box / sphere; splats outside are hidden and don't count towards the bounds.
+    crop: SplatCrop | null;
+    contentMode: PortalContentMode;
+    // Up-axis correction and extra rotation around the corrected up axis (degrees), both modes.
+    upAxis: UpAxis;
+    yawOffsetDeg: number;
+    // walkIn only: splat units -> meters, and the splat-space point (at floor level) that lands where the user
+    // arrives after stepping through: `viewerBehindDoorZ` behind the opening's center.
+    walkInScale: number;
+    spawnPoint: [number, number, number];
+    // Proximity door: opens within `doorOpenDistance` (meters, horizontal, to the opening's center) while the
+    // camera looks within `doorFacingAngleDeg` of it; closes beyond `doorCloseDistance` (> open distance).
+    doorOpenDistance: number;
+    doorCloseDistance: number;
+    doorFacingAngleDeg: number;
+    // Door GLB animation clip names (empty: pick clips whose name contains open / close / idle).
+    doorOpenClip: string;
+    doorCloseClip: string;
+    doorIdleClip: string;
+    // Splat position behind the door plane (local -Z is inside), so the user starts OUTSIDE.
+    viewerBehindDoorZ: number;
+    // Crossing hysteresis band, see PortalCrossing. Must satisfy outsideThresholdZ > insideThresholdZ.
+    outsideThresholdZ: number;
+    insideThresholdZ: number;
+}
+
+export type PortalConfigKey = keyof PortalConfig;
+
+// Raw overrides as they appear in the manifest (values are validated on resolve, not trusted).
+export type PortalConfigInput = Partial<Record<PortalConfigKey, unknown>>;
+
+export type PortalConfigSource = 'default' | 'door' | 'env' | 'scene' | 'url';
+
+export interface PortalConfigLayer {
+    source: PortalConfigSource;
+    values: Record<string, unknown>;
+}
+
+export interface PortalConfigWarning {
+    source: PortalConfigSource;
+    key: string;
+    message: string;
+}
+
+export interface ResolvedPortalConfig {
+    config: PortalConfig;
+    // Which layer supplied each effective value.
+    sources: Record<PortalConfigKey, PortalConfigSource>;
+    warnings: PortalConfigWarning[];
+}
+
+export interface PortalOpening {
+    w: number;
+    h: number;
+    // Center X of the opening in portal-local space.
+    offsetX: number;
+    // Bottom edge of the opening in portal-local space.
+    bottomY: number;
+}
+
+// Opening defaults only fit the default door model; door GLBs that describe their opening override them.
+export const DEFAULT_PORTAL_CONFIG: Readonly<PortalConfig> = {
+    openingWidth: 0.68,
+    openingHeight: 1.75,
+    openingCenterX: 0,
+    openingBottomY: 0,
+    // User verified.
+    openingScale: 0.75,
+    // Stable default (user-verified): +0.05m
+    openingOffsetX: 0.05,
+    openingShape: DEFAULT_OPENING_SHAPE,
+    // Door GLB alignment note: the frame appears aligned toward bottom-left.
+    anchor: 'bottomLeft',
+    // "take the 673b926 fit scale and then * 0.7": 673b926 used ~0.92, so 0.92 * 0.7 = 0.644.
+    fitPadding: 0.644,
+    boundsPercentile: 0.01,
+    crop: null,
+    contentMode: 'fit',
+    upAxis: '+y',
+    yawOffsetDeg: 0,
+    walkInScale: 1,
+    spawnPoint: [0, 0, 0],
+    doorOpenDistance: 1.8,
+    doorCloseDistance: 2.6,
+    doorFacingAngleDeg: 50,
+    doorOpenClip: '',
+    doorCloseClip: '',
+    doorIdleClip: '',
+    viewerBehindDoorZ: -0.9,
+    // Match 88a38b7 convention: ±0.12 m around the portal plane.
+    outsideThresholdZ: 0.12,
+    insideThresholdZ: -0.12,
+};
+
+type FieldSpec =
+    | { kind: 'number'; min: number; max: number; env: string }
+    | { kind: 'enum'; values: readonly string[]; env: string }
+    | { kind: 'shape'; env: string }
+    | { kind: 'vec3'; env: string }
+    | { kind: 'crop'; env: string }
+    | { kind: 'string'; env: string };
+
+// URL params use the config key itself (`?openingScale=0.8`), which keeps the existing params working.
+const FIELDS: Record<PortalConfigKey, FieldSpec> = {
+    openingWidth: { kind: 'number', min: 0.1, max: 5, env: 'VITE_PORTAL_OPENING_WIDTH' },
+    openingHeight: { kind: 'number', min: 0.1, max: 5, env: 'VITE_PORTAL_OPENING_HEIGHT' },
+    openingCenterX: { kind: 'number', min: -5, max: 5, env: 'VITE_PORTAL_OPENING_CENTER_X' },
+    openingBottomY: { kind: 'number', min: -1, max: 5, env: 'VITE_PORTAL_OPENING_BOTTOM_Y' },
+    openingScale: { kind: 'number', min: 0.1, max: 1, env: 'VITE_PORTAL_OPENING_SCALE' },
+    openingOffsetX: { kind: 'number', min: -0.2, max: 0.2, env: 'VITE_PORTAL_OPENING_OFFSET_X' },
+    openingShape: { kind: 'shape', env: 'VITE_PORTAL_OPENING_SHAPE' },
+    anchor: { kind: 'enum', values: ['centerBottom', 'bottomLeft'], env: 'VITE_PORTAL_ANCHOR' },
+    fitPadding: { kind: 'number', min: 0.1, max: 1, env: 'VITE_PORTAL_FIT_PADDING' },
+    boundsPercentile: { kind: 'number', min: 0, max: 0.2, env: 'VITE_PORTAL_BOUNDS_PERCENTILE' },
+    crop: { kind: 'crop', env: 'VITE_PORTAL_CROP' },
+    contentMode: { kind: 'enum', values: ['fit', 'walkIn'], env: 'VITE_PORTAL_CONTENT_MODE' },
+    upAxis: { kind: 'enum', values: ['+y', '-y', '+z', '-z', '+x', '-x'], env: 'VITE_PORTAL_UP_AXIS' },
+    yawOffsetDeg: { kind: 'number', min: -360, max: 360, env: 'VITE_PORTAL_YAW_OFFSET_DEG' },
+    walkInScale: { kind: 'number', min: 0.001, max: 1000, env: 'VITE_PORTAL_WALK_IN_SCALE' },
+    spawnPoint: { kind: 'vec3', env: 'VITE_PORTAL_SPAWN_POINT' },
+    doorOpenDistance: { kind: 'number', min: 0.3, max: 10, env: 'VITE_PORTAL_DOOR_OPEN_DISTANCE' },
+    doorCloseDistance: { kind: 'number', min: 0.5, max: 20, env: 'VITE_PORTAL_DOOR_CLOSE_DISTANCE' },
+    doorFacingAngleDeg: { kind: 'number', min: 5, max: 180, env: 'VITE_PORTAL_DOOR_FACING_ANGLE_DEG' },
+    doorOpenClip: { kind: 'string', env: 'VITE_PORTAL_DOOR_OPEN_CLIP' },
+    doorCloseClip: { kind: 'string', env: 'VITE_PORTAL_DOOR_CLOSE_CLIP' },
+    doorIdleClip: { kind: 'string', env: 'VITE_PORTAL_DOOR_IDLE_CLIP' },
+    viewerBehindDoorZ: { kind: 'number', min: -10, max: 0, env: 'VITE_PORTAL_VIEWER_BEHIND_DOOR_Z' },
+    outsideThresholdZ: { kind: 'number', min: 0, max: 1, env: 'VITE_PORTAL_OUTSIDE_THRESHOLD_Z' },
+    insideThresholdZ: { kind: 'number', min: -1, max: 0, env: 'VITE_PORTAL_INSIDE_THRESHOLD_Z' },
+};
+
+const CONFIG_KEYS = Object.keys(FIELDS) as PortalConfigKey[];
+
+export function envPortalConfigLayer(env: Record<string, unknown> = import.meta.env): PortalConfigLayer {
+    const values: Record<string, unknown> = {};
+    for (const key of CONFIG_KEYS) {
+        const raw = env[FIELDS[key].env];
+        if (raw !== undefined) values[key] = raw;
+    }
+    return { source: 'env', values };
+}
+
+export function urlPortalConfigLayer(
+    search: string = typeof window !== 'undefined' ? window.location.search : ''
+): PortalConfigLayer {
+    const params = new URLSearchParams(search);
+    const values: Record<string, unknown> = {};
+    for (const key of CONFIG_KEYS) {
+        const raw = params.get(key);
+        if (raw !== null) values[key] = raw;
+    }
+    return { source: 'url', values };
+}
+
+/** Apply `layers` in order on top of the defaults. Later layers win. */
+export function resolvePortalConfig(layers: readonly PortalConfigLayer[]): ResolvedPortalConfig {
+    const config: PortalConfig = { ...DEFAULT_PORTAL_CONFIG };
+    const sources = Object.fromEntries(CONFIG_KEYS.map((key) => [key, 'default'])) as Record<
+        PortalConfigKey,
+        PortalConfigSource
+    >;
+    const warnings: PortalConfigWarning[] = [];
+
+    for (const layer of layers) {
+        for (const [key, raw] of Object.entries(layer.values)) {
+            if (!(key in FIELDS)) {
+                // Env/URL layers only ever contain known keys; this catches typos in the manifest / GLB extras.
+                warnings.push({ source: layer.source, key, message: 'unknown portal setting' });
+                continue;
+            }
+            const configKey = key as PortalConfigKey;
+            const value = readValue(FIELDS[configKey], raw, (message) =>
+                warnings.push({ source: layer.source, key, message })
+            );
+            if (value === undefined) continue;
+            (config as unknown as Record<string, unknown>)[configKey] = value;
+            sources[configKey] = layer.source;
+        }
+    }
+
+    if (!(config.outsideThresholdZ > config.insideThresholdZ)) {
+        warnings.push({
+            source: sources.outsideThresholdZ === 'default' ? sources.insideThresholdZ : sources.outsideThresholdZ,
+            key: 'outsideThresholdZ',
+            message: `needs outsideThresholdZ > insideThresholdZ (got ${config.outsideThresholdZ} / ${config.insideThresholdZ}); using defaults`,
+        });
+        config.outsideThresholdZ = DEFAULT_PORTAL_CONFIG.outsideThresholdZ;
+        config.insideThresholdZ = DEFAULT_PORTAL_CONFIG.insideThresholdZ;
+        sources.outsideThresholdZ = 'default';
+        sources.insideThresholdZ = 'default';
+    }
+
+    if (!(config.doorCloseDistance > config.doorOpenDistance)) {
+        warnings.push({
+            source: sources.doorCloseDistance === 'default' ? sources.doorOpenDistance : sources.doorCloseDistance,
+            key: 'doorCloseDistance',
+            message: `needs doorCloseDistance > doorOpenDistance (got ${config.doorCloseDistance} / ${config.doorOpenDistance}); using defaults`,
+        });
+        config.doorOpenDistance = DEFAULT_PORTAL_CONFIG.doorOpenDistance;
+        config.doorCloseDistance = DEFAULT_PORTAL_CONFIG.doorCloseDistance;
+        sources.doorOpenDistance = 'default';
+        sources.doorCloseDistance = 'default';
+    }
+
+    return { config, sources, warnings };
+}
+
+/** Effective opening rectangle (meters, portal-local) for a config. */
+export function getPortalOpening(config: PortalConfig): PortalOpening {
+    const w = config.openingWidth * config.openingScale;
+    const h = config.openingHeight * config.openingScale;
+    const bottomY = config.openingBottomY;
+    if (config.anchor !== 'bottomLeft') return { w, h, offsetX: config.openingCenterX, bottomY };
+    // Keep original LEFT edge fixed while shrinking:
+    // leftEdge = center - width/2 should remain constant
+    // => center must shift LEFT by half the width delta
+    const baseAnchorOffsetX = -(config.openingWidth - w) / 2;
+    return { w, h, offsetX: config.openingCenterX + baseAnchorOffsetX + config.openingOffsetX, bottomY };
+}
+
+export function formatPortalConfigWarning(warning: PortalConfigWarning): string {
+    return `${warning.source}: ${warning.key} ${warning.message}`;
+}
+
+function readValue(spec: FieldSpec, raw: unknown, warn: (message: string) => void): PortalConfig[PortalConfigKey] | undefined {
+    // Unset env vars / empty URL params mean "not provided", not "invalid".
+    if (raw === undefined || raw === null || (typeof raw === 'string' && raw.trim() === '')) return undefined;
+
+    if (spec.kind === 'shape') {
+        const shape = parseOpeningShape(raw);
+        if (typeof shape !== 'string') return shape;
+        warn(shape);
+        return undefined;
+    }
+
+    if (spec.kind === 'string') {
+        if (typeof raw === 'string') return raw.trim();
+        warn(`expected a string, got ${JSON.stringify(raw)}`);
+        return undefined;
+    }
+
+    if (spec.kind === 'crop') {
+        const crop = parseSplatCrop(raw);
+        if (typeof crop !== 'string') return crop;
+        warn(crop);
+        return undefined;
+    }
+
+    if (spec.kind === 'vec3') {
+        // `[x, y, z]` in JSON (manifest, GLB extras) or `x,y,z` in URL / env.
+        const parts = typeof raw === 'string' ? raw.split(',').map((p) => Number(p.trim())) : raw;
+        if (Array.isArray(parts) && parts.length === 3 && parts.every((n) => typeof n === 'number' && Number.isFinite(n))) {
+            return [parts[0], parts[1], parts[2]];
+        }
+        warn(`expected [x, y, z] or "x,y,z", got ${JSON.stringify(raw)}`);
+        return undefined;
+    }
+
+    if (spec.kind === 'enum') {
+        if (typeof raw === 'string' && spec.values.includes(raw.trim())) return raw.trim() as PortalAnchor;
+        warn(`expected one of ${spec.values.join(', ')}, got ${JSON.stringify(raw)}`);
+        return undefined;
+    }
+
+    const value = typeof raw === 'number' ? raw : typeof raw === 'string' ? Number(raw.trim()) : NaN;
+    if (!Number.isFinite(value)) {
+        warn(`expected a number, got ${JSON.stringify(raw)}`);
+        return undefined;
+    }
+    if (value < spec.min || value > spec.max) {
+        const clamped = Math.min(spec.max, Math.max(spec.min, value));
+        warn(`${value} is outside [${spec.min}, ${spec.max}], clamped to ${clamped}`);
+        return clamped;
+    }
+    return value;
+}
@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_CROSSING_STEP, PortalCrossingStateMachine } from './PortalCrossing';
+import type { CrossingTransition, PortalLocalPose } from './PortalCrossing';
+
+// Scripted camera paths in portal-local space: +Z is outside, -Z inside, the opening is 0.9 × 2 m centred
+// on x = 0 and standing on the floor (eye height 1.6 m).
+
+const EYE = 1.6;
+const STEP = 0.05;
+
+function doorway(): PortalCrossingStateMachine {
+    const machine = new PortalCrossingStateMachine();
+    machine.setOpeningTest((x, y) => Math.abs(x) <= 0.45 && y >= 0 && y <= 2);
+    return machine;
+}
+
+// Straight line from `from` to `to` in `step`-sized increments (both ends included); returns the transitions.
+function walk(
+    machine: PortalCrossingStateMachine,
+    from: PortalLocalPose,
+    to: PortalLocalPose,
+    step = STEP
+): CrossingTransition[] {
+    const length = Math.hypot(to.x - from.x, to.y - from.y, to.z - from.z);
+    const steps = Math.max(1, Math.ceil(length / step));
+    const transitions: CrossingTransition[] = [];
+    for (let i = 0; i <= steps; i++) {
+        const t = i / steps;
+        const transition = machine.update({
+            x: from.x + (to.x - from.x) * t,
+            y: from.y + (to.y - from.y) * t,
+            z: from.z + (to.z - from.z) * t,
+        });
+        if (transition) transitions.push(transition);
+    }
+    return transitions;
+}
+
+// Follow a polyline of waypoints.
+function path(machine: PortalCrossingStateMachine, points: PortalLocalPose[]): CrossingTransition[] {
+    const transitions: CrossingTransition[] = [];
+    for (let i = 1; i < points.length; i++) transitions.push(...walk(machine, points[i - 1], points[i]));
+    return transitions;
+}
+
+const at = (x: number, z: number, y = EYE): PortalLocalPose => ({ x, y, z });
+
+describe('PortalCrossingStateMachine', () => {
+    it('rejects thresholds without outsideZ > insideZ', () => {
+        expect(() => new PortalCrossingStateMachine({ outsideZ: 0, insideZ: 0 })).toThrow(RangeError);
+    });
+
+    it('enters when walking in through the opening and exits the same way', () => {
+        const machine = doorway();
+
+        const entering = walk(machine, at(0, 2), at(0, -1.5));
+        expect(entering.map((t) => t.type)).toEqual(['entered']);
+        expect(entering[0].from).toBe('outside');
+        // The flip waits until the camera is past the hysteresis band.
+        expect(entering[0].pose.z).toBeLessThan(machine.getThresholds().insideZ);
+        expect(machine.isInside).toBe(true);
+
+        const exiting = walk(machine, at(0, -1.5), at(0, 2));
+        expect(exiting.map((t) => t.type)).toEqual(['exited']);
+        expect(exiting[0].pose.z).toBeGreaterThan(machine.getThresholds().outsideZ);
+        expect(machine.state).toBe('outside');
+    });
+
+    it('counts a diagonal walk through the opening', () => {
+        const machine = doorway();
+        expect(walk(machine, at(-1, 1.5), at(0.8, -1.5)).map((t) => t.type)).toEqual(['entered']);
+    });
+
+    it('stays outside when walking around the frame and standing behind the door', () => {
+        const machine = doorway();
+        const transitions = path(machine, [at(0, 2), at(1.2, 2), at(1.2, -1.5), at(0, -1.5), at(0, -3)]);
+        expect(transitions).toEqual([]);
+        expect(machine.state).toBe('outside');
+        expect(machine.lastZone).toBe('inside');
+    });
+
+    it('stays outside when stepping back out through the opening from behind the door', () => {
+        const machine = doorway();
+        const transitions = path(machine, [at(0, 2), at(1.2, 2), at(1.2, -1.5), at(0, -1.5), at(0, 2)]);
+        expect(transitions).toEqual([]);
+        expect(machine.state).toBe('outside');
+    });
+
+    it('does not count passing the plane beside or above the opening', () => {
+        const beside = doorway();
+        expect(walk(beside, at(0.7, 2), at(0.7, -1.5))).toEqual([]);
+        expect(beside.state).toBe('outside');
+
+        const above = doorway();
+        expect(walk(above, at(0, 2, 2.4), at(0, -1.5, 2.4))).toEqual([]);
+        expect(above.state).toBe('outside');
+    });
+
+    it('keeps its state while jittering inside the hysteresis band', () => {
+        const machine = doorway();
+        walk(machine, at(0, 1), at(0, 0.1));
+        const jitter = [0.1, -0.1, 0.08, -0.11, 0.11, -0.05, 0.02, -0.1].map((z) => machine.update(at(0.01, z)));
+        expect(jitter.filter(Boolean)).toEqual([]);
+        expect(machine.state).toBe('outside');
+        expect(machine.lastZone).toBe('threshold');
+
+        walk(machine, at(0, -0.1), at(0, -1));
+        expect(machine.isInside).toBe(true);
+        const insideJitter = [-0.1, 0.1, -0.02, 0.11, -0.11, 0.05].map((z) => machine.update(at(-0.01, z)));
+        expect(insideJitter.filter(Boolean)).toEqual([]);
+        expect(machine.isInside).toBe(true);
+    });
+
+    it('treats steps longer than MAX_CROSSING_STEP as tracking jumps', () => {
+        const machine = doorway();
+        walk(machine, at(0, 2), at(0, 0.5));
+        const jumpTo = at(0, 0.5 - MAX_CROSSING_STEP - 0.3);
+        expect(machine.update(jumpTo)).toBeNull();
+        expect(walk(machine, jumpTo, at(0, -2))).toEqual([]);
+        expect(machine.state).toBe('outside');
+
+        // A jump back out doesn't count as leaving either.
+        const inside = doorway();
+        walk(inside, at(0, 2), at(0, -1));
+        expect(inside.isInside).toBe(true);
+        expect(inside.update(at(0, 1))).toBeNull();
+        expect(inside.isInside).toBe(true);
+    });
+
+    it('counts a step just under MAX_CROSSING_STEP', () => {
+        const machine = doorway();
+        machine.update(at(0, 0.3));
+        expect(machine.update(at(0, 0.3 - MAX_CROSSING_STEP + 0.01))?.type).toBe('entered');
+    });
+
+    it('reset() forces a side without a transition and forgets the path', () => {
+        const machine = doorway();
+        walk(machine, at(0, 2), at(0, -1));
+        expect(machine.isInside).toBe(true);
+
+        machine.reset();
+        expect(machine.state).toBe('outside');
+        expect(machine.lastZone).toBe('outside');
+        expect(machine.lastPose).toBeNull();
+        // Still behind the door after the reset: no crossing happened, so no transition.
+        expect(walk(machine, at(0, -1), at(0, -2))).toEqual([]);
+        expect(machine.state).toBe('outside');
+
+        machine.reset('inside');
+        expect(machine.isInside).toBe(true);
+        expect(walk(machine, at(0, -1), at(0, 2)).map((t) => t.type)).toEqual(['exited']);
+    });
+
+    it('breakPath() keeps the state but drops a pending crossing', () => {
+        const machine = doorway();
+        // Through the plane, still inside the band: armed but not flipped yet.
+        walk(machine, at(0, 1), at(0, -0.05));
+        expect(machine.state).toBe('outside');
+
+        machine.breakPath();
+        expect(machine.lastPose).toBeNull();
+        expect(walk(machine, at(0, -0.05), at(0, -1))).toEqual([]);
+        expect(machine.state).toBe('outside');
+
+        // The state itself survives a broken path.
+        const inside = doorway();
+        walk(inside, at(0, 2), at(0, -1));
+        inside.breakPath();
+        expect(inside.isInside).toBe(true);
+    });
+
+    it('ignores non-finite poses', () => {
+        const machine = doorway();
+        machine.update(at(0, 1));
+        expect(machine.update({ x: 0, y: EYE, z: Number.NaN })).toBeNull();
+        expect(machine.lastPose?.z).toBe(1);
+    });
+});
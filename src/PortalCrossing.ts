@@ -0,0 +1,150 @@
+// Portal crossing state machine.
+// Pure logic (no Three.js / WebGL): feed it camera positions in portal-local space and it reports when the
+// user walks in or out. Portal-local convention (see PortalSystem): the camera starts on local +Z (outside),
+// the splat lives on local -Z (inside).
+//
+// Hysteresis: the state only flips once the camera is clearly past the plane on the other side
+// (z < insideZ to enter, z > outsideZ to leave). Inside the band in between, the previous state is kept,
+// so standing in the doorway doesn't flicker the stencil.
+//
+// Passing through: a flip needs the camera path to have crossed the portal plane (z = 0) between two frames,
+// towards the other side, and (with an opening test set) inside the opening. Crossing the plane anywhere
+// else, i.e. walking around the door, disarms it, so standing behind the door keeps you outside. A step
+// longer than `MAX_CROSSING_STEP` is a tracking jump, not a walk: it never counts as passing through.
+
+export type PortalSide = 'outside' | 'inside';
+
+// Where the latest pose sits relative to the hysteresis band.
+export type PortalZone = 'outside' | 'threshold' | 'inside';
+
+export interface PortalLocalPose {
+    x: number;
+    y: number;
+    z: number;
+}
+
+export interface CrossingThresholds {
+    // Must be > insideZ.
+    outsideZ: number;
+    insideZ: number;
+}
+
+export interface CrossingTransition {
+    type: 'entered' | 'exited';
+    from: PortalSide;
+    to: PortalSide;
+    pose: PortalLocalPose;
+}
+
+// Portal-local (x, y) on the portal plane -> is it inside the opening? `y` is the camera (eye) height.
+export type OpeningTest = (x: number, y: number) => boolean;
+
+// Match 88a38b7 convention: ±0.12 m around the portal plane.
+export const DEFAULT_CROSSING_THRESHOLDS: CrossingThresholds = { outsideZ: 0.12, insideZ: -0.12 };
+
+// Meters between consecutive poses; anything longer is treated as a tracking discontinuity.
+export const MAX_CROSSING_STEP = 0.75;
+
+export class PortalCrossingStateMachine {
+    private side: PortalSide;
+    private zone: PortalZone = 'outside';
+    private pose: PortalLocalPose | null = null;
+    // The latest plane crossing went through the opening towards the other side; the flip happens once the
+    // camera is also past the hysteresis band.
+    private armed = false;
+    private openingTest: OpeningTest | null = null;
+    private readonly thresholds: CrossingThresholds;
+
+    constructor(thresholds: CrossingThresholds = DEFAULT_CROSSING_THRESHOLDS, initial: PortalSide = 'outside') {
+        if (!(thresholds.outsideZ > thresholds.insideZ)) {
+            throw new RangeError(
+                `Crossing thresholds need outsideZ > insideZ (got outsideZ=${thresholds.outsideZ}, insideZ=${thresholds.insideZ})`
+            );
+        }
+        this.thresholds = { ...thresholds };
+        this.side = initial;
+    }
+
+    public get state(): PortalSide {
+        return this.side;
+    }
+
+    public get isInside(): boolean {
+        return this.side === 'inside';
+    }
+
+    public get lastZone(): PortalZone {
+        return this.zone;
+    }
+
+    public get lastPose(): PortalLocalPose | null {
+        return this.pose;
+    }
+
+    public getThresholds(): CrossingThresholds {
+        return { ...this.thresholds };
+    }
+
+    /** Only count crossings through the opening (null: the whole portal plane counts, as before). */
+    public setOpeningTest(test: OpeningTest | null) {
+        this.openingTest = test;
+    }
+
+    /** Force a state without emitting a transition (e.g. the portal was just placed: always outside). */
+    public reset(side: PortalSide = 'outside') {
+        this.side = side;
+        this.zone = side;
+        this.breakPath();
+    }
+
+    /**
+     * Keep the state but forget the path: the next pose doesn't connect to the previous one. For
+     * discontinuities that aren't walking (the portal was moved, the XR reference space was reset).
+     */
+    public breakPath() {
+        this.pose = null;
+        this.armed = false;
+    }
+
+    /** Advance with the latest camera pose; returns the transition if this pose crossed the portal. */
+    public update(pose: PortalLocalPose): CrossingTransition | null {
+        if (!Number.isFinite(pose.x) || !Number.isFinite(pose.y) || !Number.isFinite(pose.z)) return null;
+        const previous = this.pose;
+        this.pose = { x: pose.x, y: pose.y, z: pose.z };
+        if (previous) this.trackPlaneCrossing(previous, this.pose);
+
+        if (pose.z < this.thresholds.insideZ) this.zone = 'inside';
+        else if (pose.z > this.thresholds.outsideZ) this.zone = 'outside';
+        else this.zone = 'threshold';
+
+        if (this.zone === this.side || this.zone === 'threshold' || !this.armed) return null;
+
+        const from = this.side;
+        this.side = this.zone;
+        this.armed = false;
+        return { type: this.side === 'inside' ? 'entered' : 'exited', from, to: this.side, pose: this.pose };
+    }
+
+    private trackPlaneCrossing(from: PortalLocalPose, to: PortalLocalPose) {
+        const fromFront = from.z >= 0;
+        const toFront = to.z >= 0;
+        if (fromFront === toFront) return;
+
+        const dx = to.x - from.x;
+        const dy = to.y - from.y;
+        const dz = to.z - from.z;
+        // Tracking jump: the state stays whatever it was.
+        if (dx * dx + dy * dy + dz * dz > MAX_CROSSING_STEP * MAX_CROSSING_STEP) {
+            this.armed = false;
+            return;
+        }
+        // Outside is the +Z (front) side. Stepping back towards the current side cancels a pending pass.
+        const towardsOtherSide = this.side === 'outside' ? !toFront : toFront;
+        if (!towardsOtherSide) {
+            this.armed = false;
+            return;
+        }
+        const t = from.z / (from.z - to.z);
+        this.armed = !this.openingTest || this.openingTest(from.x + dx * t, from.y + dy * t);
+    }
+}
@@ -0,0 +1,172 @@
+import * as THREE from 'three';
+import { PortalSystem } from './PortalSystem';
+import { SplatCache, resolveSplatCacheBudgetBytes } from './SplatCache';
+
+// Several doors in the room, each opening onto its own splat scene.
+// - Every portal gets a unique stencil ref, so a splat only shows through its own opening.
+// - Render order is re-assigned each frame by distance (farthest first): where openings overlap, the
+//   nearer mask writes the stencil last and wins.
+// - At most one portal is "inside". While you're in one world the other doors are hidden (and not updated);
+//   stepping back out shows them again, reset to OUTSIDE.
+
+export const MAX_PORTALS = 4;
+// Render order stride per portal (mask, splat, frame use base, +1, +2).
+const RENDER_ORDER_STRIDE = 10;
+
+export interface ManagedPortal {
+    // 1-based, stable for the portal's lifetime (used in UI labels).
+    id: number;
+    portal: PortalSystem;
+    // Catalog key of the scene loaded (or loading) into this portal.
+    sceneKey: string | null;
+}
+
+export interface PortalManagerEventMap {
+    // The portal that scene switches, "move door" and placement apply to changed.
+    activechange: { entry: ManagedPortal };
+    added: { entry: ManagedPortal };
+    // `entry` is null when the user stepped back out into the room.
+    insidechange: { entry: ManagedPortal | null };
+}
+
+export class PortalManager extends THREE.EventDispatcher<PortalManagerEventMap> {
+    private readonly scene: THREE.Scene;
+    // One budget for all portals' downloads and built viewers.
+    private readonly splatCache: SplatCache;
+    private readonly entries: ManagedPortal[] = [];
+    private activeEntry: ManagedPortal;
+    private insideEntry: ManagedPortal | null = null;
+    // Placed portals hidden because the user is inside another one; shown again on the way out.
+    private readonly hiddenWhileInside = new Set<ManagedPortal>();
+
+    private readonly cameraWorld = new THREE.Vector3();
+    private readonly portalWorld = new THREE.Vector3();
+
+    constructor(scene: THREE.Scene, options: { splatCache?: SplatCache } = {}) {
+        super();
+        this.scene = scene;
+        this.splatCache = options.splatCache ?? new SplatCache({ memoryBudgetBytes: resolveSplatCacheBudgetBytes() });
+        this.activeEntry = this.createEntry();
+    }
+
+    public get active(): ManagedPortal {
+        return this.activeEntry;
+    }
+
+    public get inside(): ManagedPortal | null {
+        return this.insideEntry;
+    }
+
+    public get all(): readonly ManagedPortal[] {
+        return this.entries;
+    }
+
+    public canAdd(): boolean {
+        return this.entries.length < MAX_PORTALS && this.insideEntry === null;
+    }
+
+    /** Create another (unplaced) portal and make it the active one. */
+    public add(): ManagedPortal | null {
+        if (!this.canAdd()) return null;
+        const entry = this.createEntry();
+        this.dispatchEvent({ type: 'added', entry });
+        this.setActive(entry);
+        return entry;
+    }
+
+    public setActive(entry: ManagedPortal) {
+        if (entry === this.activeEntry || !this.entries.includes(entry)) return;
+        this.activeEntry = entry;
+        this.dispatchEvent({ type: 'activechange', entry });
+    }
+
+    /** Cycle the active portal (placed portals only, plus the current one). */
+    public activateNext(): ManagedPortal {
+        const candidates = this.entries.filter((e) => e === this.activeEntry || e.portal.group.visible);
+        const next = candidates[(candidates.indexOf(this.activeEntry) + 1) % candidates.length];
+        this.setActive(next);
+        return next;
+    }
+
+    /** Unplace every portal (e.g. when AR placement starts over); the first one becomes active again. */
+    public hideAll() {
+        this.setInside(null);
+        for (const entry of this.entries) entry.portal.unplace();
+        this.setActive(this.entries[0]);
+    }
+
+    public update(camera: THREE.Camera, deltaSeconds = 0) {
+        camera.getWorldPosition(this.cameraWorld);
+
+        // Farthest first, so nearer masks overwrite overlapping stencil areas.
+        const byDistance = this.entries
+            .map((entry) => ({
+                entry,
+                distance: entry.portal.group.getWorldPosition(this.portalWorld).distanceToSquared(this.cameraWorld),
+            }))
+            .sort((a, b) => b.distance - a.distance);
+        byDistance.forEach(({ entry }, index) => entry.portal.setRenderOrder(index * RENDER_ORDER_STRIDE));
+
+        for (const entry of this.entries) {
+            // Hidden portals keep their state until the user steps back out.
+            if (this.insideEntry && entry !== this.insideEntry) continue;
+            entry.portal.update(camera, deltaSeconds);
+        }
+    }
+
+    public preloadSplats(urls: string[]) {
+        this.activeEntry.portal.preloadSplats(urls);
+    }
+
+    public debugDump() {
+        return {
+            active: this.activeEntry.id,
+            inside: this.insideEntry?.id ?? null,
+            portals: this.entries.map((entry) => ({
+                id: entry.id,
+                sceneKey: entry.sceneKey,
+                placed: entry.portal.group.visible,
+                ...entry.portal.debugDump(),
+            })),
+        };
+    }
+
+    private createEntry(): ManagedPortal {
+        const id = this.entries.length + 1;
+        const portal = new PortalSystem({
+            splatCache: this.splatCache,
+            stencilRef: id,
+            renderOrderBase: (id - 1) * RENDER_ORDER_STRIDE,
+        });
+        const entry: ManagedPortal = { id, portal, sceneKey: null };
+        portal.addEventListener('entered', () => this.setInside(entry));
+        portal.addEventListener('exited', () => {
+            if (this.insideEntry === entry) this.setInside(null);
+        });
+        this.entries.push(entry);
+        this.scene.add(portal.group);
+        return entry;
+    }
+
+    private setInside(entry: ManagedPortal | null) {
+        if (entry === this.insideEntry) return;
+        const previous = this.insideEntry;
+        this.insideEntry = entry;
+
+        for (const other of this.entries) {
+            if (other === entry || other === previous) continue;
+            if (entry) {
+                if (!other.portal.group.visible) continue;
+                this.hiddenWhileInside.add(other);
+                other.portal.group.visible = false;
+            } else if (this.hiddenWhileInside.has(other)) {
+                other.portal.group.visible = true;
+                other.portal.resetCrossing();
+            }
+        }
+        if (!entry) this.hiddenWhileInside.clear();
+        this.dispatchEvent({ type: 'insidechange', entry });
+        // The world you're standing in is the one the scene selector should switch.
+        if (entry) this.setActive(entry);
+    }
+}
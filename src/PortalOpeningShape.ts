@@ -0,0 +1,264 @@
+import * as THREE from 'three';
+import { SVGLoader } from 'three/examples/jsm/loaders/SVGLoader.js';
+import type { PortalOpening } from './PortalConfig';
+import { createLogger } from './Logger';
+
+// Portal opening outlines beyond the plain rectangle.
+// A shape spec is declarative (config / manifest / door GLB extras); `buildOpeningGeometry` turns it into the
+// stencil mask geometry in portal space, and `PortalOpeningOutline` answers "is this point in the opening?"
+// from that same geometry, so the mask, the crossing test and the fit always agree.
+//
+// Shapes are laid out in the opening box from PortalConfig (w × h, centered on offsetX, bottom at bottomY):
+// - rect, arch (semicircular top), ellipse: built at that size
+// - polygon points / SVG path `d`: any units, stretched to the opening box (SVG y points down)
+// - mesh: the door GLB's "opening" node geometry (see DoorOpening), stretched the same way
+
+const log = createLogger('PortalOpeningShape');
+
+export type OpeningShapeSpec =
+    | { type: 'rect' }
+    | { type: 'arch' }
+    | { type: 'ellipse' }
+    | { type: 'polygon'; points: Array<[number, number]> }
+    | { type: 'path'; d: string }
+    | { type: 'mesh' };
+
+export const DEFAULT_OPENING_SHAPE: OpeningShapeSpec = { type: 'rect' };
+
+const CURVE_SEGMENTS = 32;
+const SIMPLE_SHAPES = ['rect', 'arch', 'ellipse', 'mesh'] as const;
+
+/**
+ * Validate a shape spec. Accepts a name (`"arch"`), a JSON string (URL / env) or an object (manifest,
+ * GLB extras). Returns an error message instead of throwing so PortalConfig can report it as a warning.
+ */
+export function parseOpeningShape(raw: unknown): OpeningShapeSpec | string {
+    let value = raw;
+    if (typeof value === 'string') {
+        const text = value.trim();
+        if ((SIMPLE_SHAPES as readonly string[]).includes(text)) return { type: text as (typeof SIMPLE_SHAPES)[number] };
+        if (!text.startsWith('{')) return `expected one of ${SIMPLE_SHAPES.join(', ')} or a JSON shape, got "${text}"`;
+        try {
+            value = JSON.parse(text);
+        } catch {
+            return 'is not valid JSON';
+        }
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return `expected a shape name or object, got ${JSON.stringify(raw)}`;
+    }
+
+    const spec = value as Record<string, unknown>;
+    switch (spec.type) {
+        case 'rect':
+        case 'arch':
+        case 'ellipse':
+        case 'mesh':
+            return { type: spec.type };
+        case 'polygon': {
+            const points = spec.points;
+            if (
+                !Array.isArray(points) ||
+                points.length < 3 ||
+                !points.every((p) => Array.isArray(p) && p.length === 2 && p.every((n) => typeof n === 'number' && Number.isFinite(n)))
+            ) {
+                return 'polygon needs "points": at least 3 [x, y] number pairs';
+            }
+            return { type: 'polygon', points: points.map((p) => [p[0], p[1]] as [number, number]) };
+        }
+        case 'path':
+            if (typeof spec.d !== 'string' || !spec.d.trim()) return 'path needs a non-empty SVG "d" string';
+            return { type: 'path', d: spec.d.trim() };
+        default:
+            return `unknown shape type ${JSON.stringify(spec.type)}`;
+    }
+}
+
+/**
+ * Mask geometry (portal-local XY, z = 0) for `spec` laid out in `opening`. `meshOutline` is the door GLB's
+ * opening geometry, required for `mesh`; without it (or if a path/polygon is degenerate) this falls back to
+ * the rectangle and says so.
+ */
+export function buildOpeningGeometry(
+    spec: OpeningShapeSpec,
+    opening: PortalOpening,
+    meshOutline: THREE.BufferGeometry | null = null
+): THREE.BufferGeometry {
+    const { w, h } = opening;
+    const left = opening.offsetX - w / 2;
+    let geometry: THREE.BufferGeometry | null = null;
+
+    switch (spec.type) {
+        case 'arch': {
+            // Semicircle on top of a rectangle; a very low opening degrades to a flattened half-ellipse.
+            const radius = Math.min(w / 2, h);
+            const shape = new THREE.Shape();
+            shape.moveTo(0, 0);
+            shape.lineTo(w, 0);
+            shape.lineTo(w, h - radius);
+            shape.absellipse(w / 2, h - radius, w / 2, radius, 0, Math.PI, false, 0);
+            shape.lineTo(0, 0);
+            geometry = new THREE.ShapeGeometry(shape, CURVE_SEGMENTS);
+            break;
+        }
+        case 'ellipse': {
+            const shape = new THREE.Shape();
+            shape.absellipse(w / 2, h / 2, w / 2, h / 2, 0, Math.PI * 2, false, 0);
+            geometry = new THREE.ShapeGeometry(shape, CURVE_SEGMENTS);
+            break;
+        }
+        case 'polygon': {
+            const shape = new THREE.Shape(spec.points.map(([x, y]) => new THREE.Vector2(x, y)));
+            geometry = stretchToBox(new THREE.ShapeGeometry(shape), w, h, false);
+            break;
+        }
+        case 'path': {
+            const shapes = svgPathToShapes(spec.d);
+            if (shapes.length > 0) geometry = stretchToBox(new THREE.ShapeGeometry(shapes, CURVE_SEGMENTS), w, h, true);
+            break;
+        }
+        case 'mesh':
+            if (meshOutline) geometry = stretchToBox(meshOutline.clone(), w, h, false);
+            else log.warn('"mesh" opening needs an "opening" node in the door GLB; using rect');
+            break;
+        case 'rect':
+            break;
+    }
+
+    if (!geometry) {
+        if (spec.type !== 'rect' && spec.type !== 'mesh') {
+            log.warn(`${spec.type} opening produced no geometry; using rect`);
+        }
+        geometry = new THREE.PlaneGeometry(w, h);
+        geometry.translate(w / 2, h / 2, 0);
+    }
+    geometry.translate(left, opening.bottomY, 0);
+    return geometry;
+}
+
+/** Point-in-opening queries against the triangles of a mask geometry (portal-local XY). */
+export class PortalOpeningOutline {
+    public readonly bounds: { minX: number; maxX: number; minY: number; maxY: number };
+    // Flattened triangles: ax, ay, bx, by, cx, cy, ...
+    private readonly triangles: Float32Array;
+
+    constructor(geometry: THREE.BufferGeometry) {
+        const position = geometry.getAttribute('position');
+        const index = geometry.getIndex();
+        const count = index ? index.count : position.count;
+        this.triangles = new Float32Array(Math.floor(count / 3) * 6);
+        for (let i = 0; i < this.triangles.length / 2; i++) {
+            const v = index ? index.getX(i) : i;
+            this.triangles[i * 2] = position.getX(v);
+            this.triangles[i * 2 + 1] = position.getY(v);
+        }
+
+        if (!geometry.boundingBox) geometry.computeBoundingBox();
+        const box = geometry.boundingBox!;
+        this.bounds = { minX: box.min.x, maxX: box.max.x, minY: box.min.y, maxY: box.max.y };
+    }
+
+    public contains(x: number, y: number): boolean {
+        const b = this.bounds;
+        if (x < b.minX || x > b.maxX || y < b.minY || y > b.maxY) return false;
+        const t = this.triangles;
+        for (let i = 0; i < t.length; i += 6) {
+            if (pointInTriangle(x, y, t[i], t[i + 1], t[i + 2], t[i + 3], t[i + 4], t[i + 5])) return true;
+        }
+        return false;
+    }
+
+    /**
+     * Could someone whose eyes are at (x, eyeY) walk through here? Eye height is usually above an arch's
+     * spring line (or the whole opening), so test the body instead: y clamped into the lower half.
+     */
+    public allowsPassage(x: number, eyeY: number): boolean {
+        const b = this.bounds;
+        const bodyY = THREE.MathUtils.clamp(eyeY, b.minY, b.minY + (b.maxY - b.minY) / 2);
+        return this.contains(x, bodyY);
+    }
+
+    /**
+     * Largest rectangle with the given width/height ratio that fits inside the outline, horizontally
+     * centered on the opening. Vertical placement is searched over the lower half (an ellipse's widest part
+     * is its middle, an arch's is its base).
+     */
+    public inscribeRect(aspect: number): { w: number; h: number; centerX: number; bottomY: number } | null {
+        if (!(aspect > 0) || !Number.isFinite(aspect)) return null;
+        const b = this.bounds;
+        const centerX = (b.minX + b.maxX) / 2;
+        const steps = 12;
+        let best: { w: number; h: number; centerX: number; bottomY: number } | null = null;
+
+        for (let i = 0; i <= steps; i++) {
+            const bottomY = b.minY + ((b.maxY - b.minY) / 2) * (i / steps);
+            let lo = 0;
+            let hi = Math.min(b.maxY - bottomY, (b.maxX - b.minX) / aspect);
+            for (let iter = 0; iter < 20; iter++) {
+                const mid = (lo + hi) / 2;
+                if (this.containsRect(centerX, bottomY, mid * aspect, mid)) lo = mid;
+                else hi = mid;
+            }
+            if (lo > 0 && (!best || lo > best.h)) best = { w: lo * aspect, h: lo, centerX, bottomY };
+        }
+        return best;
+    }
+
+    private containsRect(centerX: number, bottomY: number, w: number, h: number): boolean {
+        // Perimeter samples: exact for convex outlines, close enough for concave polygons / paths.
+        const samples = 6;
+        const left = centerX - w / 2;
+        for (let i = 0; i <= samples; i++) {
+            const fx = left + (w * i) / samples;
+            const fy = bottomY + (h * i) / samples;
+            if (!this.contains(fx, bottomY) || !this.contains(fx, bottomY + h)) return false;
+            if (!this.contains(left, fy) || !this.contains(left + w, fy)) return false;
+        }
+        return true;
+    }
+}
+
+// Inclusive barycentric test (points on shared edges count as inside).
+function pointInTriangle(px: number, py: number, ax: number, ay: number, bx: number, by: number, cx: number, cy: number) {
+    const d1 = (px - bx) * (ay - by) - (ax - bx) * (py - by);
+    const d2 = (px - cx) * (by - cy) - (bx - cx) * (py - cy);
+    const d3 = (px - ax) * (cy - ay) - (cx - ax) * (py - ay);
+    const eps = 1e-9;
+    const hasNeg = d1 < -eps || d2 < -eps || d3 < -eps;
+    const hasPos = d1 > eps || d2 > eps || d3 > eps;
+    return !(hasNeg && hasPos);
+}
+
+// Scale/translate `geometry` so its XY bounds become [0, w] × [0, h] (optionally flipping Y for SVG).
+function stretchToBox(geometry: THREE.BufferGeometry, w: number, h: number, flipY: boolean): THREE.BufferGeometry | null {
+    geometry.computeBoundingBox();
+    const box = geometry.boundingBox!;
+    const sx = box.max.x - box.min.x;
+    const sy = box.max.y - box.min.y;
+    if (!(sx > 0) || !(sy > 0)) {
+        geometry.dispose();
+        return null;
+    }
+
+    const position = geometry.getAttribute('position');
+    for (let i = 0; i < position.count; i++) {
+        const x = ((position.getX(i) - box.min.x) / sx) * w;
+        const y = flipY ? ((box.max.y - position.getY(i)) / sy) * h : ((position.getY(i) - box.min.y) / sy) * h;
+        position.setXYZ(i, x, y, 0);
+    }
+    position.needsUpdate = true;
+    geometry.computeBoundingBox();
+    geometry.computeBoundingSphere();
+    return geometry;
+}
+
+function svgPathToShapes(d: string): THREE.Shape[] {
+    const escaped = d.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+    try {
+        const data = new SVGLoader().parse(`<svg xmlns="http://www.w3.org/2000/svg"><path d="${escaped}"/></svg>`);
+        return data.paths.flatMap((path) => SVGLoader.createShapes(path));
+    } catch (err) {
+        log.warn('Could not parse SVG path:', err);
+        return [];
+    }
+}
@@ -0,0 +1,250 @@
+import * as THREE from 'three';
+import type { PortalSystem } from './PortalSystem';
+import { createLogger } from './Logger';
+
+// AR placement for the portal door.
+// - Placement mode: a reticle follows the viewer hit test; tapping (XR `select`) puts the door there.
+// - After placement: one-finger drag slides the door along the detected plane, two-finger twist rotates it
+//   around Y. Both use transient (screen touch) input sources, so they work with the DOM overlay.
+// - `auto` mode places the door on the first hit instead of waiting for a tap (previous behavior).
+
+const log = createLogger('PortalPlacement');
+
+export type PlacementMode = 'auto' | 'manual';
+
+export interface PortalPlacementOptions {
+    mode?: PlacementMode;
+    // Viewer camera used to face the door towards the user on placement.
+    getViewer: () => THREE.Camera;
+}
+
+export interface PortalPlacementEventMap {
+    // Fired when placement mode is entered or left (door placed).
+    statechange: { placing: boolean; hasPlaced: boolean };
+}
+
+/** `?placement=auto` restores hands-free placement; anything else uses the reticle + tap flow. */
+export function resolvePlacementMode(): PlacementMode {
+    if (typeof window === 'undefined') return 'manual';
+    return new URLSearchParams(window.location.search).get('placement') === 'auto' ? 'auto' : 'manual';
+}
+
+interface DragState {
+    source: any; // XRInputSource
+    // Door position minus the first hit under the finger, so the door doesn't jump to the touch point.
+    offset: THREE.Vector3;
+}
+
+interface TwistState {
+    sources: [any, any];
+    angle: number;
+}
+
+export class PortalPlacement extends THREE.EventDispatcher<PortalPlacementEventMap> {
+    public readonly mode: PlacementMode;
+
+    private portalSystem: PortalSystem;
+    private readonly reticle: THREE.Object3D;
+    private readonly getViewer: () => THREE.Camera;
+
+    private placing = true;
+    private placed = false;
+
+    // XRHitTestSource / XRTransientInputHitTestSource (not in the basic DOM typings).
+    private hitTestSource: any = null;
+    private transientHitTestSource: any = null;
+    // Session the sources belong to; results of requests from an earlier session are dropped.
+    private session: any = null;
+
+    private drag: DragState | null = null;
+    private twist: TwistState | null = null;
+
+    private readonly hitMatrix = new THREE.Matrix4();
+    private readonly hitPosition = new THREE.Vector3();
+    private readonly movePosition = new THREE.Vector3();
+
+    constructor(portalSystem: PortalSystem, reticle: THREE.Object3D, options: PortalPlacementOptions) {
+        super();
+        this.portalSystem = portalSystem;
+        this.reticle = reticle;
+        this.getViewer = options.getViewer;
+        this.mode = options.mode ?? 'manual';
+    }
+
+    public get isPlacing(): boolean {
+        return this.placing;
+    }
+
+    public get hasPlaced(): boolean {
+        return this.placed;
+    }
+
+    /** Back to "nothing placed yet" (e.g. leaving the inline preview for AR). */
+    public reset() {
+        this.placed = false;
+        this.setPlacing(true);
+    }
+
+    /** The door was placed by other means (inline preview); skip the AR placement flow. */
+    public markPlaced() {
+        this.placed = true;
+        this.setPlacing(false);
+    }
+
+    /** Act on another portal (multi-portal): placement mode if it isn't placed yet, gestures otherwise. */
+    public setTarget(portalSystem: PortalSystem) {
+        this.portalSystem = portalSystem;
+        this.placed = portalSystem.group.visible;
+        this.setPlacing(!this.placed, true);
+    }
+
+    /** "Move door": show the reticle again; the next tap re-places the door. */
+    public startMove() {
+        if (!this.placed) return;
+        this.setPlacing(true);
+    }
+
+    /** Handle an XR `select` (screen tap). Returns true if it placed the door. */
+    public select(): boolean {
+        if (!this.placing || !this.reticle.visible) return false;
+        this.placeAt(this.hitPosition.setFromMatrixPosition(this.reticle.matrix));
+        return true;
+    }
+
+    /** AR session started: request the hit-test sources and start placing. */
+    public attach(session: any) {
+        this.detach();
+        this.session = session;
+        this.requestHitTestSources(session);
+        this.reset();
+    }
+
+    /** AR session ended: drop the sources (they die with the session) and any gesture in progress. */
+    public detach() {
+        this.session = null;
+        this.hitTestSource?.cancel?.();
+        this.transientHitTestSource?.cancel?.();
+        this.hitTestSource = null;
+        this.transientHitTestSource = null;
+        this.reticle.visible = false;
+        this.drag = null;
+        this.twist = null;
+    }
+
+    public update(frame: any, referenceSpace: any) {
+        if (!this.session || !referenceSpace) return;
+
+        if (this.placing) {
+            this.updateReticle(frame, referenceSpace);
+        } else if (this.placed) {
+            this.updateGestures(frame, referenceSpace);
+        }
+    }
+
+    private requestHitTestSources(session: any) {
+        session
+            .requestReferenceSpace('viewer')
+            .then((viewerSpace: any) => session.requestHitTestSource({ space: viewerSpace }))
+            .then((source: any) => {
+                if (this.session === session) this.hitTestSource = source;
+                else source.cancel?.();
+            })
+            .catch((err: unknown) => {
+                log.warn('Hit-test init failed (continuing without reticle):', err);
+                this.hitTestSource = null;
+            });
+
+        if (typeof session.requestHitTestSourceForTransientInput === 'function') {
+            session
+                .requestHitTestSourceForTransientInput({ profile: 'generic-touchscreen' })
+                .then((source: any) => {
+                    if (this.session === session) this.transientHitTestSource = source;
+                    else source.cancel?.();
+                })
+                .catch((err: unknown) => {
+                    log.warn('Transient hit-test unavailable (no drag/twist gestures):', err);
+                    this.transientHitTestSource = null;
+                });
+        }
+    }
+
+    private updateReticle(frame: any, referenceSpace: any) {
+        this.reticle.visible = false;
+        if (!this.hitTestSource || typeof frame.getHitTestResults !== 'function') return;
+
+        const pose = frame.getHitTestResults(this.hitTestSource)[0]?.getPose(referenceSpace);
+        if (!pose) return;
+
+        if (this.mode === 'auto' && !this.placed) {
+            this.placeAt(this.hitPosition.setFromMatrixPosition(this.hitMatrix.fromArray(pose.transform.matrix)));
+            return;
+        }
+        this.reticle.visible = true;
+        this.reticle.matrix.fromArray(pose.transform.matrix);
+    }
+
+    private placeAt(position: THREE.Vector3) {
+        this.portalSystem.place(position, this.getViewer());
+        this.placed = true;
+        this.reticle.visible = false;
+        this.setPlacing(false);
+    }
+
+    private updateGestures(frame: any, referenceSpace: any) {
+        if (!this.transientHitTestSource || typeof frame.getHitTestResultsForTransientInput !== 'function') return;
+        const touches: any[] = frame.getHitTestResultsForTransientInput(this.transientHitTestSource);
+
+        if (touches.length === 1) {
+            this.twist = null;
+            this.updateDrag(touches[0], referenceSpace);
+        } else if (touches.length === 2) {
+            this.drag = null;
+            this.updateTwist(touches[0].inputSource, touches[1].inputSource);
+        } else {
+            this.drag = null;
+            this.twist = null;
+        }
+    }
+
+    private updateDrag(touch: any, referenceSpace: any) {
+        const pose = touch.results[0]?.getPose(referenceSpace);
+        if (!pose) return;
+        this.hitPosition.setFromMatrixPosition(this.hitMatrix.fromArray(pose.transform.matrix));
+
+        if (!this.drag || this.drag.source !== touch.inputSource) {
+            const offset = this.portalSystem.group.position.clone().sub(this.hitPosition);
+            // Follow the plane height under the finger; only keep the horizontal offset.
+            offset.y = 0;
+            this.drag = { source: touch.inputSource, offset };
+            return;
+        }
+        this.portalSystem.moveTo(this.movePosition.copy(this.hitPosition).add(this.drag.offset));
+    }
+
+    private updateTwist(a: any, b: any) {
+        // generic-touchscreen sources report the touch point as gamepad axes (normalized screen coords).
+        const first = this.twist && this.twist.sources[0] === b ? b : a;
+        const second = first === a ? b : a;
+        const p = first.gamepad?.axes;
+        const q = second.gamepad?.axes;
+        if (!p || !q || p.length < 2 || q.length < 2) return;
+
+        const angle = Math.atan2(q[1] - p[1], q[0] - p[0]);
+        if (this.twist && this.twist.sources[0] === first && this.twist.sources[1] === second) {
+            // Screen y points down, so a clockwise twist increases the angle; turn the door clockwise
+            // seen from above (negative yaw).
+            const delta = THREE.MathUtils.euclideanModulo(angle - this.twist.angle + Math.PI, Math.PI * 2) - Math.PI;
+            this.portalSystem.rotateBy(-delta);
+        }
+        this.twist = { sources: [first, second], angle };
+    }
+
+    private setPlacing(placing: boolean, notify = false) {
+        if (!placing) this.reticle.visible = false;
+        this.drag = null;
+        this.twist = null;
+        if (this.placing === placing && !notify) return;
+        this.placing = placing;
+        this.dispatchEvent({ type: 'statechange', placing, hasPlaced: this.placed });
+    }
+}
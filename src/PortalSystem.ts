@@ -1,26 +1,157 @@
 import * as THREE from 'three';
-import { DropInViewer } from '@mkkellogg/gaussian-splats-3d';
+import { DropInViewer, SceneFormat } from '@mkkellogg/gaussian-splats-3d';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { formatFromUrl } from './SceneCatalog';
+import type { SplatFormat } from './SceneCatalog';
+import { PortalCrossingStateMachine } from './PortalCrossing';
+import type { CrossingTransition, PortalSide, PortalZone } from './PortalCrossing';
+import { SplatCache, resolveSplatCacheBudgetBytes } from './SplatCache';
+import {
+    SplatLoadCancelledError,
+    isSplatLoadCancelled,
+    makeProgress,
+    throwIfAborted,
+} from './SplatDownloader';
+import type { SplatProgressCallback } from './SplatDownloader';
+import {
+    envPortalConfigLayer,
+    formatPortalConfigWarning,
+    getPortalOpening,
+    resolvePortalConfig,
+    urlPortalConfigLayer,
+} from './PortalConfig';
+import type {
+    PortalConfig,
+    PortalConfigInput,
+    PortalConfigLayer,
+    PortalConfigSource,
+    PortalContentMode,
+    PortalOpening,
+    ResolvedPortalConfig,
+    UpAxis,
+} from './PortalConfig';
+import { readDoorOpening } from './DoorOpening';
+import { PortalOpeningOutline, buildOpeningGeometry } from './PortalOpeningShape';
+import { applySplatCrop, computeSplatBounds } from './SplatBounds';
+import { DoorAnimator } from './DoorAnimator';
+import { resolveDoorUrl } from './DoorUrl';
+import type { DoorState } from './DoorAnimator';
+import { createLogger } from './Logger';
 
-export class PortalSystem {
+const log = createLogger('PortalSystem');
+const debugLog = createLogger('PortalDebug');
+const configLog = createLogger('PortalConfig');
+
+export interface LoadSplatOptions {
+    // Explicit format from the scene manifest; otherwise inferred from the URL extension.
+    format?: SplatFormat;
+    // Download (byte-level) and processing/decoding progress.
+    onProgress?: SplatProgressCallback;
+    // Cancels this load. A newer loadSplat() call cancels it as well (latest wins); either way the
+    // returned promise rejects with `SplatLoadCancelledError`.
+    signal?: AbortSignal;
+    // Per-scene portal overrides from the manifest; applied when this scene becomes visible.
+    portal?: PortalConfigInput;
+}
+
+export interface PortalSystemOptions {
+    // Shared LRU of downloaded/built scenes; defaults to a private cache sized from env/URL.
+    splatCache?: SplatCache;
+    // Stencil value this portal's mask writes and its splat tests (1–255, unique per visible portal).
+    stencilRef?: number;
+    // Render order of the mask; the splat and door frame follow at +1 / +2. See setRenderOrder().
+    renderOrderBase?: number;
+}
+
+export interface PortalFitResult {
+    mode: PortalContentMode;
+    scale: number;
+    // Splat bounds size before scaling (splat units).
+    contentSize: { x: number; y: number; z: number };
+    opening: { w: number; h: number };
+}
+
+// Cheap per-frame snapshot for the diagnostics overlay (debugDump() has the full picture).
+export interface PortalStatus {
+    isInside: boolean;
+    zone: PortalZone;
+    // Viewer depth relative to the door plane (null until the first update()).
+    cameraLocalZ: number | null;
+    doorState: DoorState;
+    loading: boolean;
+    splatCount: number | null;
+}
+
+// Typed events (THREE.EventDispatcher). `target` is added by the dispatcher.
+export interface PortalSystemEventMap {
+    placed: { position: THREE.Vector3 };
+    // Slid or twisted after placement (gestures); crossing state is kept.
+    moved: { position: THREE.Vector3; yaw: number };
+    entered: { transition: CrossingTransition };
+    exited: { transition: CrossingTransition };
+    splatLoadStart: { url: string };
+    splatLoaded: { url: string; fromCache: boolean };
+    splatLoadFailed: { url: string; error: unknown };
+    // A load that was superseded by a newer one or aborted through its signal (not a failure).
+    splatLoadCancelled: { url: string; reason: string };
+    // One per fit pass (immediate, next frame, settle timeout); `final` marks the last deferred pass.
+    fitApplied: { url: string | null; pass: number; final: boolean; fit: PortalFitResult | null };
+    doorStateChange: { state: DoorState };
+}
+
+// `LoaderStatus.Processing` in gaussian-splats-3d (not exported by the package).
+const LOADER_STATUS_PROCESSING = 1;
+
+const SPLAT_FORMAT_TO_SCENE_FORMAT: Record<SplatFormat, number> = {
+    splat: SceneFormat.Splat,
+    ksplat: SceneFormat.KSplat,
+    ply: SceneFormat.Ply,
+    spz: SceneFormat.Spz,
+};
+
+const Y_UP = new THREE.Vector3(0, 1, 0);
+const UP_AXIS_VECTORS: Record<UpAxis, THREE.Vector3> = {
+    '+y': Y_UP,
+    '-y': new THREE.Vector3(0, -1, 0),
+    '+z': new THREE.Vector3(0, 0, 1),
+    '-z': new THREE.Vector3(0, 0, -1),
+    '+x': new THREE.Vector3(1, 0, 0),
+    '-x': new THREE.Vector3(-1, 0, 0),
+};
+
+export class PortalSystem extends THREE.EventDispatcher<PortalSystemEventMap> {
     public group: THREE.Group;
     private mask: THREE.Mesh;
     private frame: THREE.Object3D | null = null;
     private viewer: DropInViewer | null = null;
+    // URL + file size of the scene fully loaded into `viewer` (null while loading or empty).
+    private viewerScene: { url: string; fileBytes: number } | null = null;
     private splatMesh: THREE.Mesh | null = null;
-    private mixer: THREE.AnimationMixer | null = null;
-    private storedAction: THREE.AnimationAction | null = null;
+    // Percentile bounds of the current splat (splat space), reused across the deferred fit passes.
+    private contentBounds: { mesh: THREE.Object3D; key: string; box: THREE.Box3 | null } | null = null;
+    // Extra spin of the content about its own vertical center line (scene actions), on top of the fit.
+    private contentYaw = 0;
+    // Viewer position chosen by the last fit, before `contentYaw` is applied.
+    private readonly viewerBasePosition = new THREE.Vector3();
+    // Per-frame scratch for update() / updateDoorProximity().
+    private readonly cameraLocal = new THREE.Vector3();
+    private readonly toOpening = new THREE.Vector3();
+    private readonly viewForward = new THREE.Vector3();
+    private readonly worldToGroup = new THREE.Matrix4();
+    private readonly splatCache: SplatCache;
+    public readonly stencilRef: number;
+    private renderOrderBase: number;
+    private door: DoorAnimator | null = null;
+    // Outstanding holdDoorOpen() calls; while > 0 proximity never closes the door.
+    private doorHolds = 0;
     
-    private isLoading: boolean = false;
-    private isInside: boolean = false;
-    private lastCameraLocalZ: number | null = null;
+    // Latest-wins: only the most recent loadSplat() owns this controller; older loads get aborted.
+    private activeLoad: AbortController | null = null;
+    private crossing: PortalCrossingStateMachine;
     private lastStencilEnabled: boolean = true;
     private lastDebugLogAtMs: number = 0;
-    private readonly debugPortalEnabled: boolean =
-        typeof window !== 'undefined' &&
-        new URLSearchParams(window.location.search).get('debugPortal') === '1';
-    private readonly urlParams: URLSearchParams | null =
-        typeof window !== 'undefined' ? new URLSearchParams(window.location.search) : null;
+    // `?debug=1` / `?debugPortal=1`: skip building debug payloads otherwise.
+    private readonly debugPortalEnabled: boolean = debugLog.isEnabled('debug');
 
     // Baseline mode (Option 1):
     // - Prioritize "always visible" splat like 88afca3
@@ -29,43 +160,35 @@ export class PortalSystem {
     // IMPORTANT: three.js Object3D.lookAt aligns the object's +Z toward the target.
     // With our `group.lookAt(camera)`, camera is on local +Z side (OUTSIDE).
     // Therefore, "inside" is local -Z, so we place the splat at negative Z behind the portal plane.
-    private readonly viewerBehindDoorZ = -0.9; // put splat behind the door so user starts OUTSIDE
-    // Portal opening size in meters (tuned to sit INSIDE the visible door frame)
-    private readonly portalOpeningWidth = 0.68;
-    private readonly portalOpeningHeight = 1.75;
-    // Fit padding (leave margin so splat doesn't touch the frame edges).
-    // User requested: "take the 673b926 fit scale and then * 0.7" (single-stage).
-    // 673b926 used padding ~= 0.92, so we bake the multiplier into padding: 0.92 * 0.7 = 0.644.
-    private readonly portalFitPadding = 0.644;
-    // Door GLB alignment note: the frame appears aligned toward bottom-left.
-    // We keep the portal pivot stable (center-bottom), but align the *content* to the bottom-left edge.
-    private readonly portalAnchor: 'centerBottom' | 'bottomLeft' = 'bottomLeft';
-    // Shrink the portal OPENING (mask) relative to current baseline so it fits inside the frame.
-    // Default is 0.75 (user verified), but can be overridden via URL: `?openingScale=0.1..1.0`
-    private readonly portalOpeningScaleDefault = 0.75;
-    // Fine-tune horizontal alignment (meters). Positive moves opening/content to the RIGHT.
-    // URL override: `?openingOffsetX=0.02` (clamped to [-0.20, 0.20])
-    // Stable default (user-verified): +0.05m
-    private readonly portalOpeningOffsetXDefault = 0.05;
-    // Match 88a38b7 convention:
-    // - Outside (in front of portal): cameraLocal.z > +threshold
-    // - Inside  (behind portal):      cameraLocal.z < -threshold
-    private readonly outsideThresholdZ = 0.12;
-    private readonly insideThresholdZ = -0.12;
-
-    constructor() {
+    // Opening size/alignment, fit padding, splat offset and crossing thresholds come from PortalConfig.
+    // Env + URL layers are read once, the door layer once the GLB has loaded; the active scene's manifest
+    // overrides are slotted in between.
+    private readonly baseConfigLayers: { door: PortalConfigLayer | null; env: PortalConfigLayer; url: PortalConfigLayer } = {
+        door: null,
+        env: envPortalConfigLayer(),
+        url: urlPortalConfigLayer(),
+    };
+    private sceneConfigOverrides: PortalConfigInput | undefined;
+    // Door GLB opening triangles (for `openingShape: mesh`) and the outline of the current mask.
+    private doorOutline: THREE.BufferGeometry | null = null;
+    private openingOutline!: PortalOpeningOutline;
+    private resolvedConfig: ResolvedPortalConfig;
+    private config: PortalConfig;
+
+    constructor(options: PortalSystemOptions = {}) {
+        super();
+        this.splatCache = options.splatCache ?? new SplatCache({ memoryBudgetBytes: resolveSplatCacheBudgetBytes() });
+        this.stencilRef = options.stencilRef ?? 1;
+        this.renderOrderBase = options.renderOrderBase ?? 0;
         this.group = new THREE.Group();
         this.group.visible = false; // Hidden until placed
+        this.resolvedConfig = this.resolveConfig(['env', 'url']);
+        this.config = this.resolvedConfig.config;
+        this.crossing = this.createCrossing('outside');
 
-        // Portal Mask (88afca3 baseline): write stencil ref=1 for the door opening.
+        // Portal Mask (88afca3 baseline): write this portal's stencil ref (1 by default) for the door opening.
         // NOTE: This requires the renderer to be created with `{ stencil: true }`.
-        const openingWidth = this.getPortalOpeningWidth();
-        const openingHeight = this.getPortalOpeningHeight();
-        const openingOffsetX = this.getPortalOpeningOffsetX();
-        const maskGeo = new THREE.PlaneGeometry(openingWidth, openingHeight);
-        // Bottom at y=0, centered in X (pivot remains center-bottom)
-        // If door is bottom-left aligned, shift opening in +X so left edge stays anchored while shrinking.
-        maskGeo.translate(openingOffsetX, openingHeight / 2, 0);
+        const maskGeo = this.createMaskGeometry();
         const maskMat = new THREE.MeshBasicMaterial({
             color: 0x000000,
             colorWrite: false,
@@ -73,38 +196,24 @@ export class PortalSystem {
             depthTest: false,
             side: THREE.DoubleSide,
             stencilWrite: true,
-            stencilRef: 1,
+            stencilRef: this.stencilRef,
             stencilFunc: THREE.AlwaysStencilFunc,
             stencilZPass: THREE.ReplaceStencilOp,
         });
         this.mask = new THREE.Mesh(maskGeo, maskMat);
-        this.mask.renderOrder = 0;
+        this.mask.renderOrder = this.renderOrderBase;
         this.group.add(this.mask);
 
         // Determine Door URL (splat URL is chosen by the user on the entry screen and loaded on-demand).
-        const DEFAULT_DOOR_URL = 'https://glb.keithhe.com/ar/door/door-84s5k3c8k4.glb';
-
-        let doorUrl = import.meta.env.VITE_DOOR_URL;
+        const doorUrl = resolveDoorUrl(import.meta.env);
 
-        if (!doorUrl) {
-            const baseUrl = import.meta.env.VITE_ASSETS_URL;
-            if (baseUrl) {
-                const slash = baseUrl.endsWith('/') ? '' : '/';
-                doorUrl = `${baseUrl}${slash}door_frame.glb`; // Fallback to standard name if using generic asset base
-            } else {
-                doorUrl = DEFAULT_DOOR_URL;
-            }
-        }
-
-        console.log(`[PortalSystem] Loading Door from: ${doorUrl}`);
+        log.info(`Loading Door from: ${doorUrl}`);
         if (this.debugPortalEnabled) {
-            console.log('[PortalDebug][boot]', {
+            debugLog.debug('boot', {
                 href: typeof window !== 'undefined' ? window.location.href : null,
                 // @ts-ignore
                 buildId: typeof __BUILD_ID__ !== 'undefined' ? __BUILD_ID__ : null,
-                opening: { w: this.getPortalOpeningWidth(), h: this.getPortalOpeningHeight() },
-                padding: this.portalFitPadding,
-                anchor: this.portalAnchor,
+                config: this.config,
             });
         }
 
@@ -115,28 +224,11 @@ export class PortalSystem {
         const gltfLoader = new GLTFLoader();
         gltfLoader.load(doorUrl, (gltf) => {
             this.frame = gltf.scene;
-            this.frame.renderOrder = 2;
-            
-            // Animation Setup
-            if (gltf.animations && gltf.animations.length > 0) {
-                console.log(`[PortalSystem] Found ${gltf.animations.length} animations in door model.`);
-                this.mixer = new THREE.AnimationMixer(this.frame);
-                // Setup the first animation but DO NOT play it yet
-                const action = this.mixer.clipAction(gltf.animations[0]);
-                action.setLoop(THREE.LoopOnce, 1);
-                action.clampWhenFinished = true;
-                action.timeScale = 1.0; // Normal speed (faster than 0.5)
-                
-                // Reset to frame 0 and stop
-                action.reset();
-                action.stop();
-                
-                this.storedAction = action;
-            }
+            this.frame.renderOrder = this.renderOrderBase + 2;
 
             this.frame.traverse((child: any) => {
                  if (child.isMesh) {
-                     child.renderOrder = 2;
+                     child.renderOrder = this.renderOrderBase + 2;
                      if (child.material) {
                          child.material.depthTest = true;
                      }
@@ -147,32 +239,81 @@ export class PortalSystem {
             // After `lookAt(camera)`, camera is on local -Z side; so negative z is "toward camera".
             this.frame.position.z = -0.02;
             this.group.add(this.frame);
+
+            // Line the mask (and the fit target) up with this door's own opening, if it describes one.
+            const doorOpening = readDoorOpening(this.frame, this.group);
+            if (doorOpening) {
+                this.baseConfigLayers.door = doorOpening.layer;
+                this.doorOutline = doorOpening.outline;
+                this.applyConfig(this.resolveConfig(['door']), true);
+                log.info('Portal opening taken from door model:', this.getOpening());
+                if (this.viewer && this.splatMesh) this.applyDeferredFit(this.viewer, this.splatMesh);
+            }
+
+            // Animation setup (after the door config layer, which may name the clips). Nothing plays until the
+            // door is opened.
+            if (gltf.animations && gltf.animations.length > 0) {
+                log.info(`Found ${gltf.animations.length} animations in door model.`);
+                this.door = new DoorAnimator(this.frame, gltf.animations, {
+                    open: this.config.doorOpenClip,
+                    close: this.config.doorCloseClip,
+                    idle: this.config.doorIdleClip,
+                });
+                this.door.addEventListener('statechange', ({ state }) => {
+                    this.updateSplatVisibility();
+                    this.dispatchEvent({ type: 'doorStateChange', state });
+                });
+                this.updateSplatVisibility();
+            }
         }, undefined, (error) => {
-             console.warn("Failed to load door_frame.glb, falling back to wireframe", error);
+             log.warn('Failed to load door_frame.glb, falling back to wireframe', error);
              // Fallback to wireframe
              const frameGeo = new THREE.BoxGeometry(1.1, 2.1, 0.1);
              frameGeo.translate(0, 1.05, 0);
              const frameMat = new THREE.MeshBasicMaterial({ color: 0xffff00, wireframe: true });
              this.frame = new THREE.Mesh(frameGeo, frameMat);
-             this.frame.renderOrder = 2;
+             this.frame.renderOrder = this.renderOrderBase + 2;
              this.group.add(this.frame);
         });
     }
 
     private createFreshViewer() {
-        if (this.viewer) this.group.remove(this.viewer);
-
-        this.viewer = new DropInViewer({
+        const viewer = new DropInViewer({
             sharedMemoryForWorkers: false,
         });
+        this.attachViewer(viewer, null);
+    }
+
+    private attachViewer(viewer: DropInViewer, scene: { url: string; fileBytes: number } | null) {
+        this.releaseViewer();
+        this.viewer = viewer;
+        this.viewerScene = scene;
 
         // Align to Y-up. (Old -90deg caused "ceiling view")
         this.viewer.rotation.x = 0;
         // Put the splat behind the door by default to avoid starting "inside" the splat
-        this.viewer.position.set(0, 0, this.viewerBehindDoorZ);
+        this.viewer.position.set(0, 0, this.config.viewerBehindDoorZ);
+        this.viewerBasePosition.copy(this.viewer.position);
         this.group.add(this.viewer);
     }
 
+    // Detach the current viewer: fully loaded ones go back to the scene cache, anything else is disposed
+    // (which also aborts a download/build still running inside it).
+    private releaseViewer() {
+        const previous = this.viewer;
+        this.splatMesh = null;
+        this.viewer = null;
+        if (!previous) return;
+
+        this.group.remove(previous);
+        if (this.viewerScene) {
+            this.splatCache.storeViewer(this.viewerScene.url, previous, this.viewerScene.fileBytes);
+        } else {
+            previous.dispose().catch((err) => log.warn('Failed to dispose viewer:', err));
+        }
+        this.viewerScene = null;
+    }
+
     public place(position: THREE.Vector3, camera: THREE.Camera) {
         this.group.position.copy(position);
         this.group.visible = true;
@@ -185,25 +326,105 @@ export class PortalSystem {
         this.group.lookAt(targetPos);
 
         // Placement always starts OUTSIDE.
-        this.isInside = false;
+        this.crossing.reset('outside');
         if (this.splatMesh) this.setSplatStencil(true);
 
-        // Play Door Animation if available
-        this.playDoorAnimation();
+        // The door opens once the user walks up to it (see updateDoorProximity).
+        this.dispatchEvent({ type: 'placed', position: position.clone() });
     }
 
-    private playDoorAnimation() {
-        if (this.storedAction) {
-            this.storedAction.reset();
-            this.storedAction.play();
-        }
+    /** Take the portal out of the room (session ended / placement starts over): closed, outside, hidden. */
+    public unplace() {
+        this.group.visible = false;
+        this.door?.resetClosed();
+        this.resetCrossing();
+        this.updateSplatVisibility();
     }
 
-    public update(camera: THREE.Camera) {
-        // Update Animation
-        if (this.mixer) {
-            this.mixer.update(0.016); // Approximate delta time (60fps)
+    /** Slide the placed portal to `position`, keeping its orientation and crossing state. */
+    public moveTo(position: THREE.Vector3) {
+        this.group.position.copy(position);
+        // The camera didn't walk: don't read the relative jump as a pass through the door.
+        this.crossing.breakPath();
+        this.dispatchMoved();
+    }
+
+    /**
+     * Move this portal's mask / splat / frame to `base` / +1 / +2. With several portals, the farther ones get
+     * lower bases so a nearer opening overwrites the stencil where they overlap.
+     */
+    public setRenderOrder(base: number) {
+        if (base === this.renderOrderBase) return;
+        this.renderOrderBase = base;
+        this.mask.renderOrder = base;
+        if (this.splatMesh) this.splatMesh.renderOrder = base + 1;
+        if (this.frame) {
+            this.frame.renderOrder = base + 2;
+            this.frame.traverse((child: any) => {
+                if (child.isMesh) child.renderOrder = base + 2;
+            });
         }
+    }
+
+    public isInside(): boolean {
+        return this.crossing.isInside;
+    }
+
+    /** Back to OUTSIDE (clipped) without a transition event, e.g. when a hidden portal is shown again. */
+    public resetCrossing() {
+        this.crossing.reset('outside');
+        if (this.splatMesh) this.setSplatStencil(true);
+    }
+
+    /** Tracking discontinuity (XR reference space reset): keep inside/outside, drop the previous pose. */
+    public breakCrossingPath() {
+        this.crossing.breakPath();
+    }
+
+    /** Rotate the placed portal around its own vertical axis. */
+    public rotateBy(yawRadians: number) {
+        this.group.rotateY(yawRadians);
+        this.crossing.breakPath();
+        this.dispatchMoved();
+    }
+
+    private dispatchMoved() {
+        this.group.updateMatrixWorld(true);
+        // Read yaw in YXZ order: after lookAt() the default XYZ euler can report it as a flipped x/z pair.
+        const yaw = new THREE.Euler().setFromQuaternion(this.group.quaternion, 'YXZ').y;
+        this.dispatchEvent({ type: 'moved', position: this.group.position.clone(), yaw });
+    }
+
+    public get doorState(): DoorState {
+        return this.door?.state ?? 'open';
+    }
+
+    public openDoor() {
+        this.door?.open();
+    }
+
+    /** Close the door: its `close` clip, or the opening played backwards (always with `reverse`). */
+    public closeDoor(options: { reverse?: boolean } = {}) {
+        this.door?.close(options);
+    }
+
+    /**
+     * Keep the door open wherever the viewer is (scene actions), until the returned function is called; then
+     * proximity takes over again. Holds stack, and a scene switch still closes the door.
+     */
+    public holdDoorOpen(): () => void {
+        this.doorHolds++;
+        let held = true;
+        return () => {
+            if (!held) return;
+            held = false;
+            this.doorHolds--;
+        };
+    }
+
+    /** `deltaSeconds`: time since the previous frame (XR frame timestamps), drives the door animation. */
+    public update(camera: THREE.Camera, deltaSeconds = 0) {
+        this.door?.update(deltaSeconds);
 
         if (!this.group.visible || !this.splatMesh) return;
 
@@ -213,154 +434,372 @@ export class PortalSystem {
         // Minimal inside/outside switch:
         // - Outside (in front of portal): clip splat to the door opening (stencil)
         // - Inside  (behind portal): show full splat so the store doesn't "disappear"
-        const cameraWorld = new THREE.Vector3();
         const effectiveCamera = (camera as any)?.isArrayCamera ? (camera as any).cameras?.[0] : camera;
         if (!effectiveCamera) return;
         effectiveCamera.updateMatrixWorld(true);
-        effectiveCamera.getWorldPosition(cameraWorld);
-        const cameraLocal = this.group.worldToLocal(cameraWorld);
-        this.lastCameraLocalZ = cameraLocal.z;
-
-        // Inside (behind the portal)
-        if (cameraLocal.z < this.insideThresholdZ) {
-            if (!this.isInside) {
-                this.isInside = true;
-                this.setSplatStencil(false);
-            }
-            this.maybeDebugLog('inside');
+        const cameraLocal = this.group.worldToLocal(effectiveCamera.getWorldPosition(this.cameraLocal));
+
+        // Hysteresis lives in the crossing state machine; we only react to its transitions.
+        const transition = this.crossing.update(cameraLocal);
+        if (transition) this.onCrossingTransition(transition);
+        this.updateDoorProximity(effectiveCamera, cameraLocal);
+
+        const zone = this.crossing.lastZone;
+        if (zone !== 'threshold') this.maybeDebugLog(zone);
+    }
+
+    // Open when the user is within `doorOpenDistance` of the opening and looking at it; close again beyond
+    // `doorCloseDistance`. Never while inside, and never while the next scene is still loading. While held
+    // open (holdDoorOpen) the door just opens, whatever the distance.
+    private updateDoorProximity(camera: THREE.Camera, cameraLocal: THREE.Vector3) {
+        if (!this.door || this.crossing.isInside) return;
+        const state = this.door.state;
+        if (this.doorHolds > 0) {
+            if ((state === 'closed' || state === 'closing') && !this.activeLoad) this.openDoor();
             return;
         }
+        const opening = this.getOpening();
+        const toOpening = this.toOpening.set(opening.offsetX - cameraLocal.x, 0, -cameraLocal.z);
+        const distance = toOpening.length();
 
-        // Outside (in front of the portal)
-        if (cameraLocal.z > this.outsideThresholdZ) {
-            if (this.isInside) {
-                this.isInside = false;
-                this.setSplatStencil(true);
-            }
-            this.maybeDebugLog('outside');
+        if ((state === 'open' || state === 'opening') && distance > this.config.doorCloseDistance) {
+            this.closeDoor();
+            return;
         }
+        if ((state === 'closed' || state === 'closing') && distance < this.config.doorOpenDistance && !this.activeLoad) {
+            this.worldToGroup.copy(this.group.matrixWorld).invert();
+            const forward = camera.getWorldDirection(this.viewForward).transformDirection(this.worldToGroup);
+            forward.y = 0;
+            // Standing in the doorway counts as facing it.
+            const facing =
+                distance < 0.05 ||
+                (forward.lengthSq() > 1e-6 && forward.angleTo(toOpening) <= THREE.MathUtils.degToRad(this.config.doorFacingAngleDeg));
+            if (facing) this.openDoor();
+        }
+    }
+
+    // A closed door hides the world behind it (the stencil alone would still show it through the shut leaf).
+    private updateSplatVisibility() {
+        if (!this.splatMesh) return;
+        this.splatMesh.visible = this.crossing.isInside || this.doorState !== 'closed';
+    }
+
+    private onCrossingTransition(transition: CrossingTransition) {
+        // Inside: show full splat so the store doesn't "disappear". Outside: clip to the door opening.
+        this.setSplatStencil(transition.to === 'outside');
+        // Close the door behind the user on the way back out (unless something holds it open).
+        if (transition.type === 'exited' && this.doorHolds === 0) this.closeDoor();
+        this.updateSplatVisibility();
+        if (this.debugPortalEnabled) {
+            debugLog.debug('crossing', { type: transition.type, z: transition.pose.z });
+        }
+        this.dispatchEvent({ type: transition.type, transition });
     }
     
-    public loadSplat(url: string): Promise<void> {
-        if (this.isLoading) {
-            console.warn('[PortalSystem] Load already in progress, ignoring request.');
-            return Promise.resolve();
+    public loadSplat(url: string, options: LoadSplatOptions = {}): Promise<void> {
+        // We hand the viewer a blob URL, so it can't infer the format from the extension anymore.
+        const format = options.format ?? formatFromUrl(url);
+        if (!format) {
+            return Promise.reject(new Error(`Cannot determine splat format for ${url}`));
         }
-        this.isLoading = true;
 
-        console.log(`[PortalSystem] Loading Splat from: ${url}`);
+        const sceneOverrides = options.portal;
+
+        if (this.activeLoad) {
+            log.info('Superseding in-flight splat load.');
+            this.activeLoad.abort('superseded');
+        }
+        const controller = new AbortController();
+        this.activeLoad = controller;
+        const signal = controller.signal;
+        if (options.signal) {
+            const external = options.signal;
+            if (external.aborted) controller.abort(external.reason ?? 'cancelled');
+            else external.addEventListener('abort', () => controller.abort(external.reason ?? 'cancelled'), { once: true });
+        }
+        // Real loads get the bandwidth; a preload of this very scene is joined instead of cancelled.
+        this.splatCache.cancelPreloads(url);
+
+        log.info(`Loading Splat from: ${url}`);
+        this.dispatchEvent({ type: 'splatLoadStart', url });
+        // Switching worlds: close while the next scene loads; proximity opens it again once it's ready.
+        if (this.viewerScene?.url !== url) this.closeDoor();
+
+        // Superseded loads must not keep driving the loading UI.
+        const onProgress: SplatProgressCallback | undefined = options.onProgress
+            ? (progress) => {
+                  if (!signal.aborted) options.onProgress!(progress);
+              }
+            : undefined;
+
+        // Fast paths: the scene is already showing, or a built viewer for it is cached.
+        if (this.viewer && this.viewerScene?.url === url) {
+            this.activateSplat(this.viewer, sceneOverrides);
+            onProgress?.({ ...makeProgress('done', 0, null, null), percent: 100 });
+            this.activeLoad = null;
+            this.dispatchEvent({ type: 'splatLoaded', url, fromCache: true });
+            return Promise.resolve();
+        }
+        const cached = this.splatCache.takeViewer(url);
+        if (cached) {
+            log.info('Splat restored from cache');
+            this.attachViewer(cached.viewer, { url, fileBytes: cached.fileBytes });
+            this.activateSplat(cached.viewer, sceneOverrides);
+            onProgress?.({ ...makeProgress('done', 0, null, null), percent: 100 });
+            this.activeLoad = null;
+            this.dispatchEvent({ type: 'splatLoaded', url, fromCache: true });
+            return Promise.resolve();
+        }
         
-        // Baseline approach: recreate viewer per scene switch to avoid internal state corruption.
+        // Baseline approach: a fresh viewer per scene to avoid internal state corruption.
+        // The previous viewer goes back to the cache (or is disposed if it never finished loading).
         this.createFreshViewer();
         const viewer = this.viewer;
         if (!viewer) {
-            this.isLoading = false;
+            this.activeLoad = null;
             return Promise.reject('Viewer not initialized');
         }
-        
-        return viewer.addSplatScene(url, {
-            'showLoadingUI': false
-        }).then(() => {
-            this.isLoading = false;
-            console.log('[PortalSystem] Splat loaded');
-            this.splatMesh = viewer.splatMesh;
-            
-            if (this.splatMesh) {
-                this.splatMesh.frustumCulled = false;
-                // Keep same ordering as 88afca3: splat < door frame
-                this.splatMesh.renderOrder = 1;
-                // Start in OUTSIDE mode (clipped to the door opening)
-                this.isInside = false;
-                this.setSplatStencil(true);
-                // Gaussian splat bounds can finalize a tick later; fit multiple times.
-                this.applyDeferredFit(viewer, this.splatMesh);
-            }
-        }).catch(err => {
-            this.isLoading = false;
-            console.error('[PortalSystem] Failed to load splat:', err);
-            throw err;
+
+        let fileBytes = 0;
+        return this.splatCache
+            .fetchFile(url, { onProgress, signal })
+            .then((file) => {
+                throwIfAborted(signal, url);
+                fileBytes = file.size;
+                return this.addSplatFile(viewer, file, format, url, signal, onProgress);
+            })
+            .then(() => {
+                throwIfAborted(signal, url);
+                log.info('Splat loaded');
+                this.viewerScene = { url, fileBytes };
+                this.activateSplat(viewer, sceneOverrides);
+                onProgress?.({ ...makeProgress('done', 0, null, null), percent: 100 });
+                this.dispatchEvent({ type: 'splatLoaded', url, fromCache: false });
+            })
+            .catch((err) => {
+                if (signal.aborted) {
+                    const cancelled = isSplatLoadCancelled(err) ? err : new SplatLoadCancelledError(url, String(signal.reason));
+                    log.info(`${cancelled.message}`);
+                    // Cancelled without a successor (external signal): drop the half-built viewer.
+                    if (this.activeLoad === controller && this.viewer === viewer) this.releaseViewer();
+                    this.dispatchEvent({ type: 'splatLoadCancelled', url, reason: String(signal.reason) });
+                    throw cancelled;
+                }
+                log.error('Failed to load splat:', err);
+                this.dispatchEvent({ type: 'splatLoadFailed', url, error: err });
+                throw err;
+            })
+            .finally(() => {
+                if (this.activeLoad === controller) this.activeLoad = null;
+            });
+    }
+
+    /** Warm the scene cache with the given splat URLs (most likely next first). */
+    public preloadSplats(urls: string[]) {
+        // Never compete with a load the user is actually waiting for.
+        if (this.activeLoad) return;
+        this.splatCache.preload(urls.filter((url) => url !== this.viewerScene?.url));
+    }
+
+    public getSplatCacheStats() {
+        return this.splatCache.stats();
+    }
+
+    private activateSplat(viewer: DropInViewer, sceneOverrides: PortalConfigInput | undefined) {
+        this.sceneConfigOverrides = sceneOverrides;
+        this.applyConfig(this.resolveConfig(['scene']));
+        this.splatMesh = viewer.splatMesh;
+        if (!this.splatMesh) return;
+
+        this.splatMesh.frustumCulled = false;
+        this.applyCrop(this.splatMesh);
+        // Keep same ordering as 88afca3: mask < splat < door frame
+        this.splatMesh.renderOrder = this.renderOrderBase + 1;
+        // Start in OUTSIDE mode (clipped to the door opening)
+        this.crossing.reset('outside');
+        this.setSplatStencil(true);
+        this.updateSplatVisibility();
+        // Gaussian splat bounds can finalize a tick later; fit multiple times.
+        this.applyDeferredFit(viewer, this.splatMesh);
+    }
+
+    public isLoadingSplat(): boolean {
+        return this.activeLoad !== null;
+    }
+
+    // Decode an already-downloaded file into the viewer (the "processing" phase of a load).
+    private addSplatFile(
+        viewer: DropInViewer,
+        file: Blob,
+        format: SplatFormat,
+        sourceUrl: string,
+        signal: AbortSignal,
+        onProgress?: SplatProgressCallback
+    ): Promise<void> {
+        // The downloaded Blob itself, not a copy.
+        const blobUrl = URL.createObjectURL(file);
+        const bytes = file.size;
+        onProgress?.({ ...makeProgress('processing', bytes, bytes, null), percent: null });
+
+        // The viewer returns its own AbortablePromise; wrap it so callers get a regular Promise
+        // that also settles as soon as the load is aborted.
+        let onAbort: (() => void) | null = null;
+        return new Promise<void>((resolve, reject) => {
+            const pending = viewer.addSplatScene(blobUrl, {
+                'showLoadingUI': false,
+                'format': SPLAT_FORMAT_TO_SCENE_FORMAT[format],
+                'onProgress': (percent: number, _label: string, status: number) => {
+                    if (status !== LOADER_STATUS_PROCESSING || !onProgress) return;
+                    onProgress({ ...makeProgress('processing', bytes, bytes, null), percent: percent > 0 ? percent : null });
+                },
+            });
+            pending.then(() => resolve()).catch((err: unknown) => reject(err));
+
+            onAbort = () => {
+                pending.abort(signal.reason);
+                reject(new SplatLoadCancelledError(sourceUrl, String(signal.reason)));
+            };
+            signal.addEventListener('abort', onAbort, { once: true });
+        }).finally(() => {
+            if (onAbort) signal.removeEventListener('abort', onAbort);
+            URL.revokeObjectURL(blobUrl);
         });
     }
 
     private applyDeferredFit(viewer: THREE.Object3D, splatRoot: THREE.Object3D) {
-        this.fitSplatToPortal(viewer, splatRoot);
+        const url = this.viewerScene?.url ?? null;
+        const runPass = (pass: number, final: boolean) => {
+            // The scene may have been switched before a deferred pass fires.
+            if (this.splatMesh !== splatRoot) return;
+            const fit = this.fitSplatToPortal(viewer, splatRoot);
+            // The fit places the viewer unrotated; the content spin goes on top.
+            this.viewerBasePosition.copy(viewer.position);
+            this.applyContentYaw();
+            this.dispatchEvent({ type: 'fitApplied', url, pass, final, fit });
+        };
+
+        runPass(0, false);
 
         if (typeof requestAnimationFrame !== 'undefined') {
-            requestAnimationFrame(() => this.fitSplatToPortal(viewer, splatRoot));
+            requestAnimationFrame(() => runPass(1, false));
         }
 
-        setTimeout(() => this.fitSplatToPortal(viewer, splatRoot), 200);
+        setTimeout(() => runPass(2, true), 200);
     }
     
-    private getPortalOpeningWidth() {
-        const raw = this.urlParams?.get('openingScale');
-        const scale = raw ? Number(raw) : this.portalOpeningScaleDefault;
-        const safeScale = Number.isFinite(scale) ? THREE.MathUtils.clamp(scale, 0.1, 1.0) : 1.0;
-        return this.portalOpeningWidth * safeScale;
+    // Defaults → door GLB → env → scene overrides → URL. Only warnings from `report` layers are logged, so
+    // each layer's problems show up once (env/URL at startup, door on GLB load, scene on activation).
+    private resolveConfig(report: PortalConfigSource[]): ResolvedPortalConfig {
+        const { door, env, url } = this.baseConfigLayers;
+        const layers: PortalConfigLayer[] = [];
+        if (door) layers.push(door);
+        layers.push(env);
+        if (this.sceneConfigOverrides) layers.push({ source: 'scene', values: this.sceneConfigOverrides });
+        layers.push(url);
+
+        const resolved = resolvePortalConfig(layers);
+        for (const warning of resolved.warnings) {
+            if (!report.includes(warning.source)) continue;
+            configLog.warn(formatPortalConfigWarning(warning));
+        }
+        return resolved;
+    }
+
+    private applyConfig(resolved: ResolvedPortalConfig, rebuildMask = false) {
+        const previous = this.config;
+        const previousOpening = this.getOpening();
+        this.resolvedConfig = resolved;
+        this.config = resolved.config;
+        const next = this.config;
+        const opening = this.getOpening();
+
+        if (
+            rebuildMask ||
+            JSON.stringify(next.openingShape) !== JSON.stringify(previous.openingShape) ||
+            opening.w !== previousOpening.w ||
+            opening.h !== previousOpening.h ||
+            opening.offsetX !== previousOpening.offsetX ||
+            opening.bottomY !== previousOpening.bottomY
+        ) {
+            this.mask.geometry.dispose();
+            this.mask.geometry = this.createMaskGeometry();
+        }
+        if (next.outsideThresholdZ !== previous.outsideThresholdZ || next.insideThresholdZ !== previous.insideThresholdZ) {
+            // Keep the current side; only the hysteresis band moves.
+            this.crossing = this.createCrossing(this.crossing.state);
+        }
     }
 
-    private getPortalOpeningHeight() {
-        const raw = this.urlParams?.get('openingScale');
-        const scale = raw ? Number(raw) : this.portalOpeningScaleDefault;
-        const safeScale = Number.isFinite(scale) ? THREE.MathUtils.clamp(scale, 0.1, 1.0) : 1.0;
-        return this.portalOpeningHeight * safeScale;
+    // Also refreshes `openingOutline`, so crossing and fitting follow the mask.
+    private createMaskGeometry() {
+        const maskGeo = buildOpeningGeometry(this.config.openingShape, this.getOpening(), this.doorOutline);
+        this.openingOutline = new PortalOpeningOutline(maskGeo);
+        return maskGeo;
     }
 
-    private getPortalOpeningOffsetX() {
-        if (this.portalAnchor !== 'bottomLeft') return 0;
-        const raw = this.urlParams?.get('openingScale');
-        const scale = raw ? Number(raw) : this.portalOpeningScaleDefault;
-        const safeScale = Number.isFinite(scale) ? THREE.MathUtils.clamp(scale, 0.1, 1.0) : 1.0;
-        const scaledWidth = this.portalOpeningWidth * safeScale;
-        // Keep original LEFT edge fixed while shrinking:
-        // leftEdge = center - width/2 should remain constant
-        // => center must shift LEFT by half the width delta
-        const baseAnchorOffsetX = -(this.portalOpeningWidth - scaledWidth) / 2;
+    private createCrossing(side: PortalSide) {
+        const crossing = new PortalCrossingStateMachine(
+            { outsideZ: this.config.outsideThresholdZ, insideZ: this.config.insideThresholdZ },
+            side
+        );
+        // Walking around the door (past the plane, outside the outline) must not flip inside/outside.
+        crossing.setOpeningTest((x, y) => this.openingOutline.allowsPassage(x, y));
+        return crossing;
+    }
 
-        const overrideRaw = this.urlParams?.get('openingOffsetX');
-        const override = overrideRaw ? Number(overrideRaw) : this.portalOpeningOffsetXDefault;
-        const safeOverride = Number.isFinite(override) ? THREE.MathUtils.clamp(override, -0.2, 0.2) : 0;
+    private getOpening(): PortalOpening {
+        return getPortalOpening(this.config);
+    }
 
-        return baseAnchorOffsetX + safeOverride;
+    public getConfig(): ResolvedPortalConfig {
+        return this.resolvedConfig;
     }
 
-    private fitSplatToPortal(viewer: THREE.Object3D, splatRoot: THREE.Object3D) {
+    private fitSplatToPortal(viewer: THREE.Object3D, splatRoot: THREE.Object3D): PortalFitResult | null {
         // IMPORTANT:
         // Some gaussian-splats-3d setups effectively ignore parent scale.
         // Apply transforms directly to the splat root for guaranteed effect.
         viewer.scale.setScalar(1);
-        viewer.position.set(0, 0, this.viewerBehindDoorZ);
+        viewer.quaternion.identity();
+        viewer.position.set(0, 0, this.config.viewerBehindDoorZ);
 
-        // Reset splat transforms to compute stable bounds
+        // Reset splat transforms to compute stable bounds (orientation included: fit measures the upright splat)
         splatRoot.scale.setScalar(1);
         splatRoot.position.set(0, 0, 0);
+        this.getContentOrientation(splatRoot.quaternion);
         splatRoot.updateMatrixWorld(true);
 
-        const bounds = new THREE.Box3().setFromObject(splatRoot);
+        if (this.config.contentMode === 'walkIn') return this.placeSplatWalkIn(viewer, splatRoot);
+
+        const bounds = this.getContentBounds(splatRoot);
         const size = new THREE.Vector3();
         bounds.getSize(size);
 
         if (!Number.isFinite(size.x) || !Number.isFinite(size.y) || size.x <= 0 || size.y <= 0) {
             if (this.debugPortalEnabled) {
-                console.log('[PortalDebug][fit-skip]', { size: { x: size.x, y: size.y, z: size.z } });
+                debugLog.debug('fit-skip', { size: { x: size.x, y: size.y, z: size.z } });
             }
-            return;
+            return null;
         }
 
-        const openingWidth = this.getPortalOpeningWidth();
-        const openingHeight = this.getPortalOpeningHeight();
+        const opening = this.getOpening();
+        const openingWidth = opening.w;
+        const openingHeight = opening.h;
+        const target = this.getFitTarget(size.x / size.y, opening);
+        if (!target) return null;
 
-        // Single-stage fit scale (673b926 fit scale * 0.7 is baked into `portalFitPadding`)
-        const scaleToFit = Math.min(openingWidth / size.x, openingHeight / size.y) * this.portalFitPadding;
-        if (!Number.isFinite(scaleToFit) || scaleToFit <= 0) return;
+        // Single-stage fit scale (673b926 fit scale * 0.7 is baked into `fitPadding`)
+        const scaleToFit = Math.min(target.w / size.x, target.h / size.y) * this.config.fitPadding;
+        if (!Number.isFinite(scaleToFit) || scaleToFit <= 0) return null;
 
         const clampedScale = THREE.MathUtils.clamp(scaleToFit, 0.01, 50);
         splatRoot.scale.setScalar(clampedScale);
 
         if (this.debugPortalEnabled) {
-            console.log('[PortalDebug][fit]', {
-                opening: { w: openingWidth, h: openingHeight },
-                padding: this.portalFitPadding,
+            debugLog.debug('fit', {
+                opening: { w: openingWidth, h: openingHeight, shape: this.config.openingShape.type },
+                target,
+                padding: this.config.fitPadding,
                 size: { x: size.x, y: size.y, z: size.z },
                 scale: clampedScale,
             });
@@ -369,19 +808,98 @@ export class PortalSystem {
         // Align content inside the opening.
         // Note: splatRoot offsets are scaled-space, so multiply by clampedScale.
         const bottomY = bounds.min.y;
-        splatRoot.position.y = -bottomY * clampedScale;
+        splatRoot.position.y = target.bottomY - bottomY * clampedScale;
 
-        if (this.portalAnchor === 'bottomLeft') {
-            // Keep the *left edge* aligned to the opening's left edge, and bottom to y=0.
-            // Opening left edge is at x = -openingWidth/2 (pivot is center-bottom).
-            const openingLeftX = this.getPortalOpeningOffsetX() - openingWidth / 2;
+        if (this.config.anchor === 'bottomLeft') {
+            // Keep the *left edge* aligned to the target's left edge, and bottom to the target's bottom.
+            // For a rect opening the target is the opening itself (pivot is center-bottom).
+            const openingLeftX = target.centerX - target.w / 2;
             const contentLeftX = bounds.min.x;
             splatRoot.position.x = openingLeftX - contentLeftX * clampedScale;
         } else {
-            // Default: center in X
+            // Default: center in X (on the target's center)
             const centerX = (bounds.min.x + bounds.max.x) / 2;
-            splatRoot.position.x = -centerX * clampedScale;
+            splatRoot.position.x = target.centerX - centerX * clampedScale;
+        }
+
+        return {
+            mode: 'fit',
+            scale: clampedScale,
+            contentSize: { x: size.x, y: size.y, z: size.z },
+            opening: { w: openingWidth, h: openingHeight },
+        };
+    }
+
+    // True-scale placement: no fitting, the spawn point lands on the floor `viewerBehindDoorZ` behind the
+    // opening's center, i.e. where you stand after stepping through. Outside, the opening shows whatever part
+    // of the scene is behind it, like a real doorway.
+    private placeSplatWalkIn(viewer: THREE.Object3D, splatRoot: THREE.Object3D): PortalFitResult {
+        const opening = this.getOpening();
+        const scale = this.config.walkInScale;
+        const spawn = new THREE.Vector3(...this.config.spawnPoint).multiplyScalar(scale).applyQuaternion(splatRoot.quaternion);
+        const size = this.getContentBounds(splatRoot).getSize(new THREE.Vector3());
+
+        viewer.position.set(opening.offsetX, 0, this.config.viewerBehindDoorZ);
+        splatRoot.scale.setScalar(scale);
+        splatRoot.position.copy(spawn).negate();
+        splatRoot.updateMatrixWorld(true);
+
+        if (this.debugPortalEnabled) {
+            debugLog.debug('walkIn', {
+                scale,
+                spawnPoint: this.config.spawnPoint,
+                upAxis: this.config.upAxis,
+                yawOffsetDeg: this.config.yawOffsetDeg,
+                size: { x: size.x, y: size.y, z: size.z },
+            });
+        }
+        return {
+            mode: 'walkIn',
+            scale,
+            contentSize: { x: size.x, y: size.y, z: size.z },
+            opening: { w: opening.w, h: opening.h },
+        };
+    }
+
+    // Content extents in splatRoot's parent space at scale 1 (orientation applied). Percentile bounds over the
+    // splat centers when the mesh exposes them, otherwise the plain object bounds.
+    private getContentBounds(splatRoot: THREE.Object3D): THREE.Box3 {
+        const { boundsPercentile, crop } = this.config;
+        const key = JSON.stringify([boundsPercentile, crop]);
+        // A null result is retried: the first fit pass can run before the splat data is complete.
+        if (this.contentBounds?.mesh !== splatRoot || this.contentBounds.key !== key || !this.contentBounds.box) {
+            this.contentBounds = { mesh: splatRoot, key, box: computeSplatBounds(splatRoot, boundsPercentile, crop) };
+        }
+        const box = this.contentBounds.box;
+        if (!box) return new THREE.Box3().setFromObject(splatRoot);
+        return box.clone().applyMatrix4(new THREE.Matrix4().makeRotationFromQuaternion(splatRoot.quaternion));
+    }
+
+    private applyCrop(splatMesh: THREE.Object3D) {
+        const crop = this.config.crop;
+        const hidden = applySplatCrop(splatMesh, crop);
+        if (hidden === null) {
+            if (crop) log.warn('Splat data not available; crop ignored');
+        } else if (crop) {
+            log.info(`Crop (${crop.type}) hid ${hidden} splats`);
+        }
+    }
+
+    // Splat-space → portal-space rotation: bring the configured up axis to +Y, then apply the yaw offset.
+    private getContentOrientation(target: THREE.Quaternion): THREE.Quaternion {
+        // Opposite vectors ('-y') turn 180° about X, so the scene's front/back flips too; yawOffsetDeg fixes that.
+        target.setFromUnitVectors(UP_AXIS_VECTORS[this.config.upAxis], Y_UP);
+        const yaw = new THREE.Quaternion().setFromAxisAngle(Y_UP, THREE.MathUtils.degToRad(this.config.yawOffsetDeg));
+        return target.premultiply(yaw);
+    }
+
+    // Area the content is fitted into: the opening box for rectangles; for other outlines the largest
+    // rectangle with the content's aspect ratio that stays inside the outline (so corners aren't clipped).
+    private getFitTarget(contentAspect: number, opening: PortalOpening) {
+        if (this.config.openingShape.type === 'rect') {
+            return { w: opening.w, h: opening.h, centerX: opening.offsetX, bottomY: opening.bottomY };
         }
+        return this.openingOutline.inscribeRect(contentAspect);
     }
 
     private setSplatStencil(enable: boolean) {
@@ -391,7 +909,7 @@ export class PortalSystem {
             if (!child?.isMesh || !child.material) return;
 
             // Three.js only applies stencil state when stencilWrite is enabled.
-            // When enabled, we keep stencil values unchanged while testing for ref=1.
+            // When enabled, we keep stencil values unchanged while testing for this portal's ref.
             child.material.stencilWrite = enable;
             if (!enable) {
                 // Important: don't leave EqualStencilFunc active when stencilWrite=false.
@@ -401,7 +919,7 @@ export class PortalSystem {
             }
 
             child.material.stencilFunc = THREE.EqualStencilFunc;
-            child.material.stencilRef = 1;
+            child.material.stencilRef = this.stencilRef;
             child.material.stencilFail = THREE.KeepStencilOp;
             child.material.stencilZFail = THREE.KeepStencilOp;
             child.material.stencilZPass = THREE.KeepStencilOp;
@@ -415,20 +933,14 @@ export class PortalSystem {
         this.lastDebugLogAtMs = now;
 
         const viewer = this.viewer;
-        console.log('[PortalDebug][pad]', this.portalFitPadding);
-        console.log('[PortalDebug]', {
+        debugLog.debug('pad', this.config.fitPadding);
+        debugLog.debug('state', {
             context,
-            isInside: this.isInside,
-            cameraLocalZ: this.lastCameraLocalZ,
-            thresholds: { outside: this.outsideThresholdZ, inside: this.insideThresholdZ },
+            isInside: this.crossing.isInside,
+            cameraLocalZ: this.crossing.lastPose?.z ?? null,
+            thresholds: { outside: this.config.outsideThresholdZ, inside: this.config.insideThresholdZ },
             stencilEnabled: this.lastStencilEnabled,
-            opening: {
-                w: this.getPortalOpeningWidth(),
-                h: this.getPortalOpeningHeight(),
-                padding: this.portalFitPadding,
-                anchor: this.portalAnchor,
-                offsetX: this.getPortalOpeningOffsetX(),
-            },
+            opening: { ...this.getOpening(), padding: this.config.fitPadding, anchor: this.config.anchor },
             viewer: viewer
                 ? {
                       position: { x: viewer.position.x, y: viewer.position.y, z: viewer.position.z },
@@ -442,18 +954,19 @@ export class PortalSystem {
         const viewer = this.viewer;
         const splatMesh = this.splatMesh;
         const bounds = splatMesh ? new THREE.Box3().setFromObject(splatMesh) : null;
+        const contentBounds = this.contentBounds?.mesh === splatMesh ? this.contentBounds.box : null;
 
         return {
-            isInside: this.isInside,
-            cameraLocalZ: this.lastCameraLocalZ,
-            thresholds: { outside: this.outsideThresholdZ, inside: this.insideThresholdZ },
+            stencilRef: this.stencilRef,
+            isInside: this.crossing.isInside,
+            cameraLocalZ: this.crossing.lastPose?.z ?? null,
+            thresholds: { outside: this.config.outsideThresholdZ, inside: this.config.insideThresholdZ },
             stencilEnabled: this.lastStencilEnabled,
-            opening: {
-                w: this.getPortalOpeningWidth(),
-                h: this.getPortalOpeningHeight(),
-                padding: this.portalFitPadding,
-                anchor: this.portalAnchor,
-            },
+            opening: { ...this.getOpening(), padding: this.config.fitPadding, anchor: this.config.anchor },
+            // Effective portal config plus which layer supplied each value.
+            config: { ...this.config },
+            configSources: { ...this.resolvedConfig.sources },
+            configWarnings: this.resolvedConfig.warnings.map(formatPortalConfigWarning),
             viewer: viewer
                 ? {
                       position: { x: viewer.position.x, y: viewer.position.y, z: viewer.position.z },
@@ -466,10 +979,52 @@ export class PortalSystem {
                       max: { x: bounds.max.x, y: bounds.max.y, z: bounds.max.z },
                   }
                 : null,
+            // Percentile (and crop) bounds used by the fit, splat space.
+            contentBounds: contentBounds
+                ? {
+                      min: { x: contentBounds.min.x, y: contentBounds.min.y, z: contentBounds.min.z },
+                      max: { x: contentBounds.max.x, y: contentBounds.max.y, z: contentBounds.max.z },
+                  }
+                : null,
+            splatCache: this.splatCache.stats(),
         };
     }
 
     public getSplatMesh() {
         return this.splatMesh;
     }
+
+    public getStatus(): PortalStatus {
+        const splatMesh = this.splatMesh as (THREE.Mesh & { getSplatCount?: () => number }) | null;
+        return {
+            isInside: this.crossing.isInside,
+            zone: this.crossing.lastZone,
+            cameraLocalZ: this.crossing.lastPose?.z ?? null,
+            doorState: this.doorState,
+            loading: this.isLoadingSplat(),
+            splatCount: typeof splatMesh?.getSplatCount === 'function' ? splatMesh.getSplatCount() : null,
+        };
+    }
+
+    /** Turn the content about the vertical axis through its center (radians; 0 = as fitted). */
+    public setContentYaw(radians: number) {
+        this.contentYaw = radians;
+        this.applyContentYaw();
+    }
+
+    private applyContentYaw() {
+        const viewer = this.viewer;
+        if (!viewer) return;
+        viewer.quaternion.setFromAxisAngle(Y_UP, this.contentYaw);
+        viewer.position.copy(this.viewerBasePosition);
+
+        const splatRoot = this.splatMesh;
+        const box = this.contentBounds?.mesh === splatRoot ? this.contentBounds?.box : null;
+        if (!splatRoot || !box || this.contentYaw === 0) return;
+        // Pivot = content center in viewer space; shift the viewer so that point stays put while it turns.
+        splatRoot.updateMatrix();
+        const pivot = box.getCenter(new THREE.Vector3()).applyMatrix4(splatRoot.matrix);
+        pivot.y = 0;
+        viewer.position.add(pivot).sub(pivot.clone().applyQuaternion(viewer.quaternion));
+    }
 }
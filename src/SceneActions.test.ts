@@ -0,0 +1,147 @@
+import type * as THREE from 'three';
+import { describe, expect, it, vi } from 'vitest';
+import { SceneActionRegistry } from './SceneActions';
+import type { SceneActionBehaviour, SceneActionContext } from './SceneActions';
+import type { ManagedPortal } from './PortalManager';
+
+// The registry only reads `sceneKey` and `portal.group.visible` from the door, so a plain object stands in
+// for the PortalManager entry (no Three.js scene, no WebGL).
+
+interface FakeDoor {
+    id: number;
+    sceneKey: string | null;
+    portal: { group: { visible: boolean } };
+}
+
+const FRAME = 1 / 60;
+
+function fakeDoor(sceneKey = 'hall'): FakeDoor {
+    return { id: 1, sceneKey, portal: { group: { visible: true } } };
+}
+
+function contextFor(door: FakeDoor, actionId = 'spin'): SceneActionContext {
+    return {
+        actionId,
+        sceneKey: door.sceneKey ?? '',
+        entry: door as unknown as ManagedPortal,
+        scene: {} as THREE.Scene,
+        getViewer: () => ({}) as THREE.Camera,
+    };
+}
+
+function spyBehaviour() {
+    const behaviour = { update: vi.fn(), select: vi.fn(), dispose: vi.fn() } satisfies SceneActionBehaviour;
+    const factory = vi.fn(() => behaviour);
+    return { behaviour, factory };
+}
+
+describe('SceneActionRegistry', () => {
+    it('returns false from arm() for an unknown id (a plain load)', () => {
+        const registry = new SceneActionRegistry();
+        const { factory } = spyBehaviour();
+        registry.register('spin', factory);
+
+        expect(registry.has('spin')).toBe(true);
+        expect(registry.has('dance')).toBe(false);
+        expect(registry.arm(contextFor(fakeDoor(), 'dance'))).toBe(false);
+        registry.update(FRAME, true);
+        expect(factory).not.toHaveBeenCalled();
+        expect(registry.select()).toBe(false);
+    });
+
+    it('starts the behaviour on the first presenting frame with the door visible', () => {
+        const registry = new SceneActionRegistry();
+        const { behaviour, factory } = spyBehaviour();
+        registry.register('spin', factory);
+        const door = fakeDoor();
+        const context = contextFor(door);
+
+        expect(registry.arm(context)).toBe(true);
+        registry.update(FRAME, false);
+        expect(factory).not.toHaveBeenCalled();
+
+        registry.update(FRAME, true);
+        registry.update(FRAME, true);
+        expect(factory).toHaveBeenCalledTimes(1);
+        expect(factory).toHaveBeenCalledWith(context);
+        expect(behaviour.update).toHaveBeenCalledTimes(2);
+        expect(behaviour.update).toHaveBeenLastCalledWith(FRAME);
+    });
+
+    it('tears the behaviour down when the door loads another scene', () => {
+        const registry = new SceneActionRegistry();
+        const { behaviour, factory } = spyBehaviour();
+        registry.register('spin', factory);
+        const door = fakeDoor('hall');
+        registry.arm(contextFor(door));
+        registry.update(FRAME, true);
+
+        door.sceneKey = 'snow';
+        registry.update(FRAME, true);
+        expect(behaviour.dispose).toHaveBeenCalledTimes(1);
+
+        // Gone for good: going back to the scene doesn't revive it without a new arm().
+        door.sceneKey = 'hall';
+        registry.update(FRAME, true);
+        expect(factory).toHaveBeenCalledTimes(1);
+        expect(registry.select()).toBe(false);
+    });
+
+    it('pauses, without disposing, while the door is hidden', () => {
+        const registry = new SceneActionRegistry();
+        const { behaviour, factory } = spyBehaviour();
+        registry.register('spin', factory);
+        const door = fakeDoor();
+        registry.arm(contextFor(door));
+        registry.update(FRAME, true);
+        expect(behaviour.update).toHaveBeenCalledTimes(1);
+
+        door.portal.group.visible = false;
+        registry.update(FRAME, true);
+        registry.update(FRAME, true);
+        expect(behaviour.update).toHaveBeenCalledTimes(1);
+        expect(behaviour.dispose).not.toHaveBeenCalled();
+
+        door.portal.group.visible = true;
+        registry.update(FRAME, true);
+        expect(behaviour.update).toHaveBeenCalledTimes(2);
+        expect(factory).toHaveBeenCalledTimes(1);
+    });
+
+    it('ignores select() while the door is hidden', () => {
+        const registry = new SceneActionRegistry();
+        const { behaviour, factory } = spyBehaviour();
+        registry.register('spin', factory);
+        const door = fakeDoor();
+        registry.arm(contextFor(door));
+        registry.update(FRAME, true);
+
+        door.portal.group.visible = false;
+        expect(registry.select()).toBe(false);
+        expect(behaviour.select).not.toHaveBeenCalled();
+
+        door.portal.group.visible = true;
+        expect(registry.select()).toBe(true);
+        expect(behaviour.select).toHaveBeenCalledTimes(1);
+    });
+
+    it('disposes the running behaviour when another action is armed or stop() is called', () => {
+        const registry = new SceneActionRegistry();
+        const first = spyBehaviour();
+        const second = spyBehaviour();
+        registry.register('spin', first.factory);
+        registry.register('glow', second.factory);
+        const door = fakeDoor();
+
+        registry.arm(contextFor(door, 'spin'));
+        registry.update(FRAME, true);
+        registry.arm(contextFor(door, 'glow'));
+        expect(first.behaviour.dispose).toHaveBeenCalledTimes(1);
+
+        registry.update(FRAME, true);
+        registry.stop();
+        expect(second.behaviour.dispose).toHaveBeenCalledTimes(1);
+        registry.update(FRAME, true);
+        expect(second.factory).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,102 @@
+import type * as THREE from 'three';
+import type { ManagedPortal } from './PortalManager';
+import { createLogger } from './Logger';
+
+// Scene card action buttons (`actions[].id` in the manifest, e.g. "orbit", "snowball").
+// - Each id maps to a factory registered here; picking the card action loads the scene as usual and arms the
+//   behaviour, which starts once the door showing that scene is placed (AR or inline preview).
+// - A behaviour lives until another scene / action is picked or its door loads a different scene. While the
+//   door is hidden (AR session ended, inside another world) it is paused, not torn down.
+// - Ids without a factory are a plain load.
+
+const log = createLogger('SceneActions');
+
+export interface SceneActionContext {
+    readonly actionId: string;
+    readonly sceneKey: string;
+    // The door the scene was loaded into.
+    readonly entry: ManagedPortal;
+    readonly scene: THREE.Scene;
+    // Current viewer (XR camera in AR, the base camera in the inline preview).
+    getViewer(): THREE.Camera;
+}
+
+export interface SceneActionBehaviour {
+    update?(deltaSeconds: number): void;
+    // Tap / XR select while the door is placed (taps used for placement don't get here).
+    select?(): void;
+    dispose(): void;
+}
+
+export type SceneActionFactory = (context: SceneActionContext) => SceneActionBehaviour;
+
+interface ArmedAction {
+    context: SceneActionContext;
+    factory: SceneActionFactory;
+    behaviour: SceneActionBehaviour | null;
+}
+
+export class SceneActionRegistry {
+    private readonly factories = new Map<string, SceneActionFactory>();
+    private current: ArmedAction | null = null;
+
+    public register(actionId: string, factory: SceneActionFactory) {
+        if (this.factories.has(actionId)) log.warn(`Replacing action "${actionId}"`);
+        this.factories.set(actionId, factory);
+    }
+
+    public has(actionId: string): boolean {
+        return this.factories.has(actionId);
+    }
+
+    /**
+     * Arm the behaviour for a scene that was just loaded (replacing the previous one). Returns false if the
+     * id isn't registered, i.e. the pick was a plain load.
+     */
+    public arm(context: SceneActionContext): boolean {
+        this.stop();
+        const factory = this.factories.get(context.actionId);
+        if (!factory) {
+            log.info(`No behaviour for "${context.actionId}"; plain load`);
+            return false;
+        }
+        this.current = { context, factory, behaviour: null };
+        return true;
+    }
+
+    public stop() {
+        const current = this.current;
+        this.current = null;
+        if (current?.behaviour) {
+            current.behaviour.dispose();
+            log.info(`Stopped "${current.context.actionId}"`);
+        }
+    }
+
+    /** Per frame; `presenting` is true while AR or the inline preview is showing. */
+    public update(deltaSeconds: number, presenting: boolean) {
+        const current = this.current;
+        if (!current) return;
+        const { entry, sceneKey, actionId } = current.context;
+        // The door moved on to another scene (scene selector, a newer pick into the same door).
+        if (entry.sceneKey !== sceneKey) {
+            this.stop();
+            return;
+        }
+        if (!presenting || !entry.portal.group.visible) return;
+
+        if (!current.behaviour) {
+            current.behaviour = current.factory(current.context);
+            log.info(`Started "${actionId}" in door ${entry.id}`);
+        }
+        current.behaviour.update?.(deltaSeconds);
+    }
+
+    /** Forward a tap / XR select. Returns true if a running behaviour handles taps. */
+    public select(): boolean {
+        const behaviour = this.current?.behaviour;
+        if (!behaviour?.select || !this.current?.context.entry.portal.group.visible) return false;
+        behaviour.select();
+        return true;
+    }
+}
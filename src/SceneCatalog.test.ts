@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { SceneManifestError, formatFromUrl, parseSceneManifest } from './SceneCatalog';
+import type { SceneManifestIssue } from './SceneCatalog';
+import bundledManifest from '../public/scenes.json';
+
+// Manifest validation: bad entries are dropped with an issue path pointing at the offending field, good ones
+// still load; only a manifest without any usable entry throws.
+
+function scene(overrides: Record<string, unknown> = {}) {
+    return {
+        key: 'hall',
+        title: 'Hall',
+        thumbnail: './hall.jpg',
+        splatUrl: 'https://example.com/hall.spz',
+        ...overrides,
+    };
+}
+
+// Warnings for a manifest whose first scene is `bad` (a valid second scene keeps the catalog loadable).
+function issuesFor(bad: Record<string, unknown>): SceneManifestIssue[] {
+    return [...parseSceneManifest({ scenes: [bad, scene({ key: 'ok' })] }).warnings];
+}
+
+function paths(issues: readonly SceneManifestIssue[]): string[] {
+    return issues.map((issue) => issue.path);
+}
+
+describe('parseSceneManifest', () => {
+    it('reads a minimal entry with defaults and the format from the URL', () => {
+        const catalog = parseSceneManifest({ scenes: [scene()] });
+        expect(catalog.warnings).toEqual([]);
+        expect(catalog.get('hall')).toEqual({
+            key: 'hall',
+            title: 'Hall',
+            description: '',
+            tags: [],
+            thumbnail: './hall.jpg',
+            splatUrl: 'https://example.com/hall.spz',
+            format: 'spz',
+            hue: 0,
+            actions: [],
+        });
+    });
+
+    it('throws when the manifest has no usable scenes', () => {
+        expect(() => parseSceneManifest([])).toThrow(SceneManifestError);
+        expect(() => parseSceneManifest({ scenes: 'hall' })).toThrow(/no scene list/);
+        try {
+            parseSceneManifest({ scenes: [scene({ key: '' })] });
+            expect.unreachable();
+        } catch (err) {
+            expect(err).toBeInstanceOf(SceneManifestError);
+            expect(paths((err as SceneManifestError).issues)).toEqual(['$.scenes[0].key']);
+        }
+    });
+
+    it('reports bad formats', () => {
+        expect(paths(issuesFor(scene({ format: 'obj' })))).toEqual(['$.scenes[0].format']);
+        expect(paths(issuesFor(scene({ splatUrl: 'https://example.com/hall.bin' })))).toEqual(['$.scenes[0].format']);
+        // An explicit format wins over the URL.
+        const catalog = parseSceneManifest({ scenes: [scene({ splatUrl: 'https://example.com/hall?id=1', format: 'ply' })] });
+        expect(catalog.get('hall')?.format).toBe('ply');
+    });
+
+    it('drops later entries with a duplicate key', () => {
+        const catalog = parseSceneManifest({ scenes: [scene(), scene({ title: 'Other hall' })] });
+        expect(catalog.entries).toHaveLength(1);
+        expect(catalog.get('hall')?.title).toBe('Hall');
+        expect(catalog.warnings).toEqual([{ path: '$.scenes[1].key', message: 'duplicate key "hall"' }]);
+    });
+
+    it('rejects keys outside the data-scene character set', () => {
+        expect(paths(issuesFor(scene({ key: 'great hall' })))).toEqual(['$.scenes[0].key']);
+    });
+
+    it('reads LocalizedText and reports bad variants', () => {
+        const catalog = parseSceneManifest({
+            scenes: [
+                scene({
+                    title: { en: 'Hall', zh: '大厅' },
+                    tags: ['Indoor', { en: 'Dark', zh: '黑暗' }],
+                    actions: [{ id: 'summon', label: { en: 'Summon', zh: '召唤' } }],
+                }),
+            ],
+        });
+        const entry = catalog.get('hall');
+        expect(entry?.title).toEqual({ en: 'Hall', zh: '大厅' });
+        expect(entry?.tags).toEqual(['Indoor', { en: 'Dark', zh: '黑暗' }]);
+        expect(entry?.actions).toEqual([{ id: 'summon', label: { en: 'Summon', zh: '召唤' } }]);
+
+        expect(paths(issuesFor(scene({ title: { fr: 'Salle' } })))).toEqual(['$.scenes[0].title.fr', '$.scenes[0].title']);
+        expect(paths(issuesFor(scene({ title: { en: 'Hall', zh: '' } })))).toEqual(['$.scenes[0].title.zh']);
+        expect(paths(issuesFor(scene({ tags: ['Indoor', 3] })))).toEqual(['$.scenes[0].tags[1]']);
+        expect(paths(issuesFor(scene({ actions: [{ id: 'summon', label: {} }] })))).toEqual(['$.scenes[0].actions[0].label']);
+    });
+
+    it('reads the audio block', () => {
+        const catalog = parseSceneManifest({
+            scenes: [
+                scene({
+                    audio: {
+                        ambient: './audio/hall.mp3',
+                        emitters: [{ url: './audio/drip.mp3', position: [0, 1, -2], volume: 0.5, loop: false, refDistance: 2 }],
+                    },
+                }),
+            ],
+        });
+        expect(catalog.get('hall')?.audio).toEqual({
+            ambient: { url: './audio/hall.mp3', volume: 1, loop: true },
+            emitters: [{ url: './audio/drip.mp3', volume: 0.5, loop: false, position: [0, 1, -2], refDistance: 2 }],
+        });
+    });
+
+    it('reports bad audio blocks', () => {
+        expect(paths(issuesFor(scene({ audio: './audio/hall.mp3' })))).toEqual(['$.scenes[0].audio']);
+        expect(paths(issuesFor(scene({ audio: { ambient: { url: './a.mp3', volume: 2, loop: 'yes' } } })))).toEqual([
+            '$.scenes[0].audio.ambient.volume',
+            '$.scenes[0].audio.ambient.loop',
+        ]);
+        expect(
+            paths(
+                issuesFor(
+                    scene({
+                        audio: {
+                            emitters: [
+                                { url: './a.mp3', position: [0, 1] },
+                                { url: './b.mp3', position: [0, 1, 2], refDistance: 0 },
+                                { position: [0, 0, 0] },
+                            ],
+                        },
+                    })
+                )
+            )
+        ).toEqual([
+            '$.scenes[0].audio.emitters[0].position',
+            '$.scenes[0].audio.emitters[1].refDistance',
+            '$.scenes[0].audio.emitters[2].url',
+        ]);
+        expect(paths(issuesFor(scene({ audio: { emitters: {} } })))).toEqual(['$.scenes[0].audio.emitters']);
+    });
+});
+
+describe('bundled manifest', () => {
+    it('parses without warnings', () => {
+        expect(parseSceneManifest(bundledManifest).warnings).toEqual([]);
+    });
+
+    it('gives the hall, snow game, wedding and xmas tree scenes sound', () => {
+        const catalog = parseSceneManifest(bundledManifest);
+        const withAudio = catalog.entries.filter((entry) => entry.audio).map((entry) => entry.key);
+        expect(withAudio).toEqual(['cthulhu_hall', 'game-snow', 'wedding', 'xmas_tree']);
+        expect(catalog.get('cthulhu_hall')?.audio).toEqual({
+            ambient: { url: './audio/cthulhu_hall.wav', volume: 0.6, loop: true },
+            emitters: [],
+        });
+        expect(catalog.get('xmas_tree')?.audio).toEqual({
+            ambient: null,
+            emitters: [{ url: './audio/xmas_tree.wav', volume: 0.8, loop: true, position: [0, 1, -1.5], refDistance: 1 }],
+        });
+    });
+});
+
+describe('formatFromUrl', () => {
+    it('ignores case, query and hash', () => {
+        expect(formatFromUrl('https://example.com/a.KSPLAT?v=2#x')).toBe('ksplat');
+        expect(formatFromUrl('./scene.splat')).toBe('splat');
+        expect(formatFromUrl('./scene.glb')).toBeNull();
+    });
+});
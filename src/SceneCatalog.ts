@@ -0,0 +1,371 @@
+// Scene catalog (manifest-driven).
+// The manifest is the single source of truth for the carousel cards, the in-AR `#scene-selector`
+// and `XRManager.handleSceneChange`. It is fetched at startup and validated before anything renders.
+
+import type { PortalConfigInput } from './PortalConfig';
+import { createLogger } from './Logger';
+import { SUPPORTED_LOCALES } from './I18n';
+import type { Locale, LocalizedText } from './I18n';
+
+const log = createLogger('SceneCatalog');
+
+export type SplatFormat = 'spz' | 'splat' | 'ksplat' | 'ply';
+
+export interface SceneAction {
+    id: string;
+    label: LocalizedText;
+}
+
+// A looping sound (URL relative to the page, like `splatUrl`).
+export interface SceneSound {
+    url: string;
+    // 0..1
+    volume: number;
+    loop: boolean;
+}
+
+// A sound at a fixed spot in the scene, in door space (meters; x right, y up from the floor, -z into the world).
+export interface SceneSoundEmitter extends SceneSound {
+    position: [number, number, number];
+    // Distance (m) at which the emitter plays at full volume before rolling off.
+    refDistance: number;
+}
+
+export interface SceneAudio {
+    // Heard through the doorway from outside, all around once inside.
+    ambient: SceneSound | null;
+    emitters: SceneSoundEmitter[];
+}
+
+export interface SceneEntry {
+    key: string;
+    // Card / selector text: a plain string or per-locale variants (see I18n `localize`).
+    title: LocalizedText;
+    description: LocalizedText;
+    tags: LocalizedText[];
+    thumbnail: string;
+    splatUrl: string;
+    format: SplatFormat;
+    // Card tint (degrees) applied on top of the thumbnail.
+    hue: number;
+    actions: SceneAction[];
+    // Portal tuning for this scene (see PortalConfig); values are validated/clamped when the scene loads.
+    portal?: PortalConfigInput;
+    // Ambient soundtrack / positional emitters (see PortalAudio).
+    audio?: SceneAudio;
+}
+
+export interface SceneManifestIssue {
+    path: string;
+    message: string;
+}
+
+export class SceneManifestError extends Error {
+    public readonly issues: SceneManifestIssue[];
+
+    constructor(message: string, issues: SceneManifestIssue[] = []) {
+        const details = issues.map((i) => `  - ${i.path}: ${i.message}`).join('\n');
+        super(details ? `${message}\n${details}` : message);
+        this.name = 'SceneManifestError';
+        this.issues = issues;
+    }
+}
+
+const SPLAT_FORMATS: readonly SplatFormat[] = ['spz', 'splat', 'ksplat', 'ply'];
+// Same characters we already use in `data-scene` keys (e.g. `cthulhu_hall`, `sci-fi-pryamid`).
+const SCENE_KEY_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+export const DEFAULT_SCENE_MANIFEST_URL = './scenes.json';
+
+export class SceneCatalog {
+    private readonly byKey: Map<string, SceneEntry>;
+
+    constructor(
+        public readonly entries: readonly SceneEntry[],
+        public readonly warnings: readonly SceneManifestIssue[] = []
+    ) {
+        this.byKey = new Map(entries.map((e) => [e.key, e]));
+    }
+
+    public get(key: string): SceneEntry | undefined {
+        return this.byKey.get(key);
+    }
+
+    public has(key: string): boolean {
+        return this.byKey.has(key);
+    }
+
+    public indexOf(key: string): number {
+        return this.entries.findIndex((e) => e.key === key);
+    }
+}
+
+/**
+ * Fetch and validate the scene manifest.
+ * URL precedence: explicit argument > `VITE_SCENES_URL` > bundled `scenes.json`.
+ */
+export async function loadSceneCatalog(url?: string): Promise<SceneCatalog> {
+    const manifestUrl = url || import.meta.env.VITE_SCENES_URL || DEFAULT_SCENE_MANIFEST_URL;
+    log.info(`Loading manifest from: ${manifestUrl}`);
+
+    let raw: unknown;
+    try {
+        const res = await fetch(manifestUrl, { cache: 'no-cache' });
+        if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}`);
+        raw = await res.json();
+    } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        throw new SceneManifestError(`Could not load scene manifest (${manifestUrl}): ${msg}`);
+    }
+
+    const catalog = parseSceneManifest(raw);
+    for (const w of catalog.warnings) {
+        log.warn(`Skipped invalid entry ${w.path}: ${w.message}`);
+    }
+    return catalog;
+}
+
+/**
+ * Validate a parsed manifest. Invalid entries are dropped and reported as warnings so one bad card
+ * doesn't take down the whole catalog; a manifest without any usable entry throws.
+ */
+export function parseSceneManifest(raw: unknown): SceneCatalog {
+    if (!isRecord(raw)) {
+        throw new SceneManifestError('Scene manifest must be a JSON object', [
+            { path: '$', message: `expected object, got ${describe(raw)}` },
+        ]);
+    }
+    if (!Array.isArray(raw.scenes)) {
+        throw new SceneManifestError('Scene manifest has no scene list', [
+            { path: '$.scenes', message: `expected array, got ${describe(raw.scenes)}` },
+        ]);
+    }
+
+    const entries: SceneEntry[] = [];
+    const warnings: SceneManifestIssue[] = [];
+    const seenKeys = new Set<string>();
+
+    raw.scenes.forEach((item: unknown, index: number) => {
+        const issues: SceneManifestIssue[] = [];
+        const entry = validateSceneEntry(item, `$.scenes[${index}]`, issues);
+        if (entry && seenKeys.has(entry.key)) {
+            issues.push({ path: `$.scenes[${index}].key`, message: `duplicate key "${entry.key}"` });
+        }
+        if (!entry || issues.length > 0) {
+            warnings.push(...issues);
+            return;
+        }
+        seenKeys.add(entry.key);
+        entries.push(entry);
+    });
+
+    if (entries.length === 0) {
+        throw new SceneManifestError('Scene manifest contains no valid scenes', warnings);
+    }
+    return new SceneCatalog(entries, warnings);
+}
+
+function validateSceneEntry(item: unknown, path: string, issues: SceneManifestIssue[]): SceneEntry | null {
+    if (!isRecord(item)) {
+        issues.push({ path, message: `expected object, got ${describe(item)}` });
+        return null;
+    }
+
+    const key = readString(item, 'key', path, issues);
+    if (key !== null && !SCENE_KEY_PATTERN.test(key)) {
+        issues.push({ path: `${path}.key`, message: `"${key}" may only contain letters, digits, "_" and "-"` });
+    }
+    const title = readLocalizedText(item.title, `${path}.title`, issues);
+    // Optional; an empty description is fine.
+    const description =
+        item.description === undefined || item.description === ''
+            ? ''
+            : (readLocalizedText(item.description, `${path}.description`, issues) ?? '');
+    const thumbnail = readString(item, 'thumbnail', path, issues);
+    const splatUrl = readString(item, 'splatUrl', path, issues);
+
+    let format: SplatFormat | null = null;
+    const rawFormat = item.format;
+    if (rawFormat === undefined && splatUrl) {
+        format = formatFromUrl(splatUrl);
+        if (!format) {
+            issues.push({ path: `${path}.format`, message: `missing, and cannot be inferred from "${splatUrl}"` });
+        }
+    } else if (typeof rawFormat === 'string' && (SPLAT_FORMATS as readonly string[]).includes(rawFormat)) {
+        format = rawFormat as SplatFormat;
+    } else if (rawFormat !== undefined) {
+        issues.push({ path: `${path}.format`, message: `expected one of ${SPLAT_FORMATS.join(', ')}, got ${describe(rawFormat)}` });
+    }
+
+    const tags: LocalizedText[] = [];
+    if (item.tags !== undefined) {
+        if (!Array.isArray(item.tags)) {
+            issues.push({ path: `${path}.tags`, message: `expected array of strings, got ${describe(item.tags)}` });
+        } else {
+            item.tags.forEach((tag: unknown, i: number) => {
+                const text = readLocalizedText(tag, `${path}.tags[${i}]`, issues);
+                if (text !== null) tags.push(text);
+            });
+        }
+    }
+
+    let hue = 0;
+    if (item.hue !== undefined) {
+        if (typeof item.hue === 'number' && Number.isFinite(item.hue)) hue = item.hue;
+        else issues.push({ path: `${path}.hue`, message: `expected number (degrees), got ${describe(item.hue)}` });
+    }
+
+    const actions: SceneAction[] = [];
+    if (item.actions !== undefined) {
+        if (!Array.isArray(item.actions)) {
+            issues.push({ path: `${path}.actions`, message: `expected array, got ${describe(item.actions)}` });
+        } else {
+            item.actions.forEach((action: unknown, i: number) => {
+                const actionPath = `${path}.actions[${i}]`;
+                if (!isRecord(action)) {
+                    issues.push({ path: actionPath, message: `expected object, got ${describe(action)}` });
+                    return;
+                }
+                const id = readString(action, 'id', actionPath, issues);
+                const label = readLocalizedText(action.label, `${actionPath}.label`, issues);
+                if (id !== null && label !== null) actions.push({ id, label });
+            });
+        }
+    }
+
+    let portal: PortalConfigInput | undefined;
+    if (item.portal !== undefined) {
+        if (isRecord(item.portal)) portal = { ...item.portal };
+        else issues.push({ path: `${path}.portal`, message: `expected object, got ${describe(item.portal)}` });
+    }
+
+    const audio = item.audio !== undefined ? readSceneAudio(item.audio, `${path}.audio`, issues) : null;
+
+    if (key === null || title === null || thumbnail === null || splatUrl === null || format === null) return null;
+    const entry: SceneEntry = { key, title, description, tags, thumbnail, splatUrl, format, hue, actions };
+    if (portal) entry.portal = portal;
+    if (audio) entry.audio = audio;
+    return entry;
+}
+
+// `audio: { ambient: "url" | { url, volume?, loop? }, emitters?: [{ url, position: [x, y, z], volume?, loop?, refDistance? }] }`
+function readSceneAudio(raw: unknown, path: string, issues: SceneManifestIssue[]): SceneAudio | null {
+    if (!isRecord(raw)) {
+        issues.push({ path, message: `expected object, got ${describe(raw)}` });
+        return null;
+    }
+
+    let ambient: SceneSound | null = null;
+    if (raw.ambient !== undefined) {
+        const spec = typeof raw.ambient === 'string' ? { url: raw.ambient } : raw.ambient;
+        ambient = readSceneSound(spec, `${path}.ambient`, issues);
+    }
+
+    const emitters: SceneSoundEmitter[] = [];
+    if (raw.emitters !== undefined) {
+        if (!Array.isArray(raw.emitters)) {
+            issues.push({ path: `${path}.emitters`, message: `expected array, got ${describe(raw.emitters)}` });
+        } else {
+            raw.emitters.forEach((item: unknown, i: number) => {
+                const emitterPath = `${path}.emitters[${i}]`;
+                const sound = readSceneSound(item, emitterPath, issues);
+                if (!sound || !isRecord(item)) return;
+                const position = item.position;
+                if (
+                    !Array.isArray(position) ||
+                    position.length !== 3 ||
+                    !position.every((n) => typeof n === 'number' && Number.isFinite(n))
+                ) {
+                    issues.push({ path: `${emitterPath}.position`, message: `expected [x, y, z], got ${describe(position)}` });
+                    return;
+                }
+                let refDistance = 1;
+                if (item.refDistance !== undefined) {
+                    if (typeof item.refDistance === 'number' && item.refDistance > 0) {
+                        refDistance = item.refDistance;
+                    } else {
+                        issues.push({
+                            path: `${emitterPath}.refDistance`,
+                            message: `expected positive number, got ${describe(item.refDistance)}`,
+                        });
+                    }
+                }
+                emitters.push({ ...sound, position: [position[0], position[1], position[2]], refDistance });
+            });
+        }
+    }
+
+    return ambient || emitters.length > 0 ? { ambient, emitters } : null;
+}
+
+function readSceneSound(raw: unknown, path: string, issues: SceneManifestIssue[]): SceneSound | null {
+    if (!isRecord(raw)) {
+        issues.push({ path, message: `expected object or URL string, got ${describe(raw)}` });
+        return null;
+    }
+    const url = readString(raw, 'url', path, issues);
+
+    let volume = 1;
+    if (raw.volume !== undefined) {
+        if (typeof raw.volume === 'number' && raw.volume >= 0 && raw.volume <= 1) volume = raw.volume;
+        else issues.push({ path: `${path}.volume`, message: `expected number 0..1, got ${describe(raw.volume)}` });
+    }
+    let loop = true;
+    if (raw.loop !== undefined) {
+        if (typeof raw.loop === 'boolean') loop = raw.loop;
+        else issues.push({ path: `${path}.loop`, message: `expected boolean, got ${describe(raw.loop)}` });
+    }
+    return url !== null ? { url, volume, loop } : null;
+}
+
+export function formatFromUrl(url: string): SplatFormat | null {
+    const path = url.split(/[?#]/)[0].toLowerCase();
+    for (const format of SPLAT_FORMATS) {
+        if (path.endsWith(`.${format}`)) return format;
+    }
+    return null;
+}
+
+function readString(obj: Record<string, unknown>, field: string, path: string, issues: SceneManifestIssue[]): string | null {
+    const value = obj[field];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    issues.push({
+        path: `${path}.${field}`,
+        message: value === undefined ? 'is required' : `expected non-empty string, got ${describe(value)}`,
+    });
+    return null;
+}
+
+// `"text"`, or `{ "en": "text", "zh": "文本" }` with at least one supported locale.
+function readLocalizedText(value: unknown, path: string, issues: SceneManifestIssue[]): LocalizedText | null {
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (isRecord(value)) {
+        const text: Partial<Record<Locale, string>> = {};
+        for (const [locale, variant] of Object.entries(value)) {
+            if (!(SUPPORTED_LOCALES as readonly string[]).includes(locale)) {
+                issues.push({ path: `${path}.${locale}`, message: `unknown locale, expected one of ${SUPPORTED_LOCALES.join(', ')}` });
+            } else if (typeof variant === 'string' && variant.trim()) {
+                text[locale as Locale] = variant.trim();
+            } else {
+                issues.push({ path: `${path}.${locale}`, message: `expected non-empty string, got ${describe(variant)}` });
+            }
+        }
+        if (Object.keys(text).length > 0) return text;
+    }
+    issues.push({
+        path,
+        message: value === undefined ? 'is required' : `expected non-empty string or per-locale strings, got ${describe(value)}`,
+    });
+    return null;
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'string') return `"${value}"`;
+    return typeof value;
+}
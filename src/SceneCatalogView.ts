@@ -0,0 +1,116 @@
+import type { SceneCatalog, SceneEntry } from './SceneCatalog';
+import { SceneManifestError } from './SceneCatalog';
+import { localize, t } from './I18n';
+
+// DOM rendering for the scene catalog. Markup mirrors the cards that used to be hand-written in index.html,
+// so the styles in main.ts apply unchanged. Manifest text is shown in the current locale; on a language
+// switch `localizeSceneCards` / `localizeSceneSelector` rewrite it in place, so listeners, the active card
+// and the selected option survive.
+
+export function renderSceneCards(carousel: HTMLElement, catalog: SceneCatalog) {
+    carousel.replaceChildren(...catalog.entries.map((entry, index) => createSceneCard(entry, index === 0)));
+}
+
+export function renderSceneSelector(selector: HTMLSelectElement, catalog: SceneCatalog) {
+    selector.replaceChildren(
+        ...catalog.entries.map((entry) => {
+            const option = document.createElement('option');
+            option.value = entry.key;
+            option.textContent = localize(entry.title);
+            return option;
+        })
+    );
+}
+
+export function localizeSceneCards(carousel: HTMLElement, catalog: SceneCatalog) {
+    carousel.querySelectorAll<HTMLElement>('.scene-card').forEach((card) => {
+        const entry = card.dataset.scene ? catalog.get(card.dataset.scene) : undefined;
+        if (entry) fillSceneCardText(card, entry);
+    });
+}
+
+export function localizeSceneSelector(selector: HTMLSelectElement, catalog: SceneCatalog) {
+    for (const option of Array.from(selector.options)) {
+        const entry = catalog.get(option.value);
+        if (entry) option.textContent = localize(entry.title);
+    }
+}
+
+export function renderCatalogError(container: HTMLElement, err: unknown) {
+    const box = document.createElement('div');
+    box.className = 'catalog-error';
+
+    const title = document.createElement('div');
+    title.className = 'catalog-error__title';
+    title.textContent = err instanceof SceneManifestError ? t('catalog.invalid') : t('catalog.loadFailed');
+
+    const details = document.createElement('pre');
+    details.className = 'catalog-error__details';
+    details.textContent = err instanceof Error ? err.message : String(err);
+
+    box.append(title, details);
+    container.replaceChildren(box);
+}
+
+function createSceneCard(entry: SceneEntry, isActive: boolean): HTMLElement {
+    const card = document.createElement('div');
+    card.className = isActive ? 'scene-card is-active' : 'scene-card';
+    card.dataset.scene = entry.key;
+    card.style.setProperty('--scene-bg', `url(${JSON.stringify(entry.thumbnail)})`);
+    card.style.setProperty('--hue', `${entry.hue}deg`);
+
+    const content = document.createElement('div');
+    content.className = 'scene-card__content';
+
+    const tags = document.createElement('div');
+    tags.className = 'scene-card__tags';
+
+    const title = document.createElement('div');
+    title.className = 'scene-card__title';
+
+    const desc = document.createElement('div');
+    desc.className = 'scene-card__desc';
+
+    const actions = document.createElement('div');
+    actions.className = 'scene-card__actions';
+    for (const action of entry.actions) {
+        const btn = document.createElement('button');
+        btn.className = 'scene-action';
+        btn.type = 'button';
+        btn.dataset.scene = entry.key;
+        btn.dataset.action = action.id;
+        actions.appendChild(btn);
+    }
+
+    // "Download for offline" toggle; hidden until OfflinePanel confirms Cache Storage is usable.
+    const offline = document.createElement('button');
+    offline.className = 'scene-card__offline';
+    offline.type = 'button';
+    offline.dataset.scene = entry.key;
+    offline.hidden = true;
+
+    content.append(tags, title, desc, actions);
+    card.append(offline, content);
+    fillSceneCardText(card, entry);
+    return card;
+}
+
+function fillSceneCardText(card: HTMLElement, entry: SceneEntry) {
+    card.querySelector('.scene-card__tags')?.replaceChildren(
+        ...entry.tags.map((tag) => {
+            const el = document.createElement('span');
+            el.className = 'tag';
+            el.textContent = localize(tag);
+            return el;
+        })
+    );
+    const title = card.querySelector('.scene-card__title');
+    if (title) title.textContent = localize(entry.title);
+    const desc = card.querySelector('.scene-card__desc');
+    if (desc) desc.textContent = localize(entry.description);
+    // Buttons are created from `entry.actions` in order.
+    card.querySelectorAll<HTMLButtonElement>('.scene-action').forEach((btn, i) => {
+        const action = entry.actions[i];
+        if (action) btn.textContent = localize(action.label);
+    });
+}
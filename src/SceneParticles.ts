@@ -0,0 +1,162 @@
+import * as THREE from 'three';
+
+// Pooled point sprites for the scene-action effects (summon motes, launch sparks, snow, confetti, ...).
+// One THREE.Points per effect with a fixed pool: additive blending means a dead or fading particle is just
+// dimmed towards black, so nothing is reallocated or sorted while it runs. Everything is in the space of
+// whatever `points` is added to (door space for scene actions).
+
+export interface ParticleSpawn {
+    position: THREE.Vector3;
+    velocity: THREE.Vector3;
+}
+
+export interface ParticleEmitterOptions {
+    maxParticles: number;
+    color: THREE.ColorRepresentation;
+    // Sprite size (meters).
+    size: number;
+    // Random lifetime range (s); particles fade in quickly and fade out over the last third.
+    lifetime: [number, number];
+    // Particles per second while updating (0: bursts only).
+    rate?: number;
+    // Downwards acceleration (m/s²).
+    gravity?: number;
+    // Start position / velocity; both are zeroed before the call.
+    spawn(particle: ParticleSpawn): void;
+    // Extra acceleration per particle and frame (swirl, drift, drag), written into `acceleration`.
+    force?(position: THREE.Vector3, velocity: THREE.Vector3, acceleration: THREE.Vector3, age: number): void;
+}
+
+const FADE_IN = 0.15; // s
+
+export class ParticleEmitter {
+    public readonly points: THREE.Points;
+    private readonly options: ParticleEmitterOptions;
+    private readonly geometry = new THREE.BufferGeometry();
+    private readonly material: THREE.PointsMaterial;
+    private readonly texture: THREE.Texture;
+    private readonly positions: Float32Array;
+    private readonly colors: Float32Array;
+    private readonly velocities: Float32Array;
+    private readonly ages: Float32Array;
+    private readonly lifetimes: Float32Array;
+    private readonly color: THREE.Color;
+    // Next pool slot to (re)use; when the pool is full the oldest spawn is replaced.
+    private nextSlot = 0;
+    // Fractional particles owed by `rate`.
+    private pending = 0;
+    private readonly spawnState: ParticleSpawn = { position: new THREE.Vector3(), velocity: new THREE.Vector3() };
+    private readonly position = new THREE.Vector3();
+    private readonly velocity = new THREE.Vector3();
+    private readonly acceleration = new THREE.Vector3();
+    private readonly extraForce = new THREE.Vector3();
+
+    constructor(options: ParticleEmitterOptions) {
+        this.options = options;
+        const count = options.maxParticles;
+        this.positions = new Float32Array(count * 3);
+        this.colors = new Float32Array(count * 3);
+        this.velocities = new Float32Array(count * 3);
+        this.ages = new Float32Array(count);
+        // All slots start dead (age >= lifetime).
+        this.lifetimes = new Float32Array(count);
+        this.color = new THREE.Color(options.color);
+
+        this.geometry.setAttribute('position', new THREE.BufferAttribute(this.positions, 3).setUsage(THREE.DynamicDrawUsage));
+        this.geometry.setAttribute('color', new THREE.BufferAttribute(this.colors, 3).setUsage(THREE.DynamicDrawUsage));
+        this.texture = createGlowTexture();
+        this.material = new THREE.PointsMaterial({
+            size: options.size,
+            map: this.texture,
+            vertexColors: true,
+            transparent: true,
+            blending: THREE.AdditiveBlending,
+            depthWrite: false,
+        });
+        this.points = new THREE.Points(this.geometry, this.material);
+        this.points.name = 'SceneParticles';
+        // Particles wander far from the (empty) initial bounds.
+        this.points.frustumCulled = false;
+    }
+
+    public burst(count: number) {
+        for (let i = 0; i < count; i++) this.spawnOne();
+    }
+
+    public update(deltaSeconds: number) {
+        const { rate = 0, gravity = 0, force } = this.options;
+        this.pending += rate * deltaSeconds;
+        while (this.pending >= 1) {
+            this.spawnOne();
+            this.pending--;
+        }
+
+        const { position, velocity, acceleration } = this;
+        for (let i = 0; i < this.ages.length; i++) {
+            const lifetime = this.lifetimes[i];
+            if (this.ages[i] >= lifetime) continue;
+            const age = (this.ages[i] += deltaSeconds);
+            if (age >= lifetime) {
+                this.colors.fill(0, i * 3, i * 3 + 3);
+                continue;
+            }
+
+            position.fromArray(this.positions, i * 3);
+            velocity.fromArray(this.velocities, i * 3);
+            acceleration.set(0, -gravity, 0);
+            if (force) {
+                force(position, velocity, this.extraForce.set(0, 0, 0), age);
+                acceleration.add(this.extraForce);
+            }
+            velocity.addScaledVector(acceleration, deltaSeconds);
+            position.addScaledVector(velocity, deltaSeconds);
+            position.toArray(this.positions, i * 3);
+            velocity.toArray(this.velocities, i * 3);
+
+            const fade = Math.min(1, age / FADE_IN, (lifetime - age) / (lifetime / 3));
+            this.colors[i * 3] = this.color.r * fade;
+            this.colors[i * 3 + 1] = this.color.g * fade;
+            this.colors[i * 3 + 2] = this.color.b * fade;
+        }
+        this.geometry.attributes.position.needsUpdate = true;
+        this.geometry.attributes.color.needsUpdate = true;
+    }
+
+    public dispose() {
+        this.points.removeFromParent();
+        this.geometry.dispose();
+        this.material.dispose();
+        this.texture.dispose();
+    }
+
+    private spawnOne() {
+        const i = this.nextSlot;
+        this.nextSlot = (this.nextSlot + 1) % this.ages.length;
+        const { position, velocity } = this.spawnState;
+        position.set(0, 0, 0);
+        velocity.set(0, 0, 0);
+        this.options.spawn(this.spawnState);
+        position.toArray(this.positions, i * 3);
+        velocity.toArray(this.velocities, i * 3);
+        this.colors.fill(0, i * 3, i * 3 + 3);
+        const [minLife, maxLife] = this.options.lifetime;
+        this.ages[i] = 0;
+        this.lifetimes[i] = minLife + Math.random() * (maxLife - minLife);
+    }
+}
+
+// Soft round sprite (PointsMaterial draws squares otherwise).
+function createGlowTexture(): THREE.Texture {
+    const size = 64;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d')!;
+    const gradient = ctx.createRadialGradient(size / 2, size / 2, 0, size / 2, size / 2, size / 2);
+    gradient.addColorStop(0, 'rgba(255,255,255,1)');
+    gradient.addColorStop(0.4, 'rgba(255,255,255,0.6)');
+    gradient.addColorStop(1, 'rgba(255,255,255,0)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, size, size);
+    return new THREE.CanvasTexture(canvas);
+}
@@ -0,0 +1,154 @@
+import * as THREE from 'three';
+
+// Content extents from the splat centers instead of `Box3.setFromObject`, so a few floaters far away from the
+// subject don't make the fitted scene tiny or shift its anchor.
+// - Bounds: per-axis percentiles over the (sampled) centers, e.g. 0.01 keeps the 1st..99th percentile.
+// - Crop: an optional box / sphere in splat space; splats outside are hidden (alpha 0 in the splat data
+//   texture) and ignored by the bounds. Needs the mesh's intermediate data, which the viewer keeps unless
+//   `freeIntermediateSplatData` is set.
+
+export type SplatCrop =
+    | { type: 'box'; min: [number, number, number]; max: [number, number, number] }
+    | { type: 'sphere'; center: [number, number, number]; radius: number };
+
+// Enough centers for stable percentiles; larger scenes are strided.
+const MAX_BOUNDS_SAMPLES = 200_000;
+
+/**
+ * Validate a crop spec: an object (manifest), a JSON string (URL / env) or `"none"` (turns off a crop from a
+ * lower config layer). Returns an error message instead of throwing, like `parseOpeningShape`.
+ */
+export function parseSplatCrop(raw: unknown): SplatCrop | null | string {
+    let value = raw;
+    if (typeof value === 'string') {
+        const text = value.trim();
+        if (text === 'none') return null;
+        try {
+            value = JSON.parse(text);
+        } catch {
+            return 'expected "none" or a JSON crop object';
+        }
+    }
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return `expected a crop object, got ${JSON.stringify(raw)}`;
+    }
+
+    const spec = value as Record<string, unknown>;
+    switch (spec.type) {
+        case 'box': {
+            const min = readVec3(spec.min);
+            const max = readVec3(spec.max);
+            if (!min || !max) return 'box crop needs "min" and "max": [x, y, z]';
+            if (!(min[0] < max[0] && min[1] < max[1] && min[2] < max[2])) return 'box crop needs min < max on every axis';
+            return { type: 'box', min, max };
+        }
+        case 'sphere': {
+            const center = readVec3(spec.center);
+            const radius = spec.radius;
+            if (!center || typeof radius !== 'number' || !(radius > 0) || !Number.isFinite(radius)) {
+                return 'sphere crop needs "center": [x, y, z] and a positive "radius"';
+            }
+            return { type: 'sphere', center, radius };
+        }
+        default:
+            return `unknown crop type ${JSON.stringify(spec.type)}`;
+    }
+}
+
+export function cropContains(crop: SplatCrop, point: THREE.Vector3): boolean {
+    if (crop.type === 'sphere') {
+        const [x, y, z] = crop.center;
+        const dx = point.x - x;
+        const dy = point.y - y;
+        const dz = point.z - z;
+        return dx * dx + dy * dy + dz * dz <= crop.radius * crop.radius;
+    }
+    return (
+        point.x >= crop.min[0] &&
+        point.x <= crop.max[0] &&
+        point.y >= crop.min[1] &&
+        point.y <= crop.max[1] &&
+        point.z >= crop.min[2] &&
+        point.z <= crop.max[2]
+    );
+}
+
+/**
+ * Percentile bounds of the splat centers (splat space, before the splat mesh's own transform). `percentile`
+ * is trimmed from each end per axis (0 = plain min/max). Returns null if the mesh has no readable centers.
+ */
+export function computeSplatBounds(splatMesh: any, percentile: number, crop: SplatCrop | null): THREE.Box3 | null {
+    const count: number = typeof splatMesh?.getSplatCount === 'function' ? splatMesh.getSplatCount() : 0;
+    if (!(count > 0) || typeof splatMesh.getSplatCenter !== 'function') return null;
+
+    const stride = Math.max(1, Math.ceil(count / MAX_BOUNDS_SAMPLES));
+    const capacity = Math.ceil(count / stride);
+    const xs = new Float32Array(capacity);
+    const ys = new Float32Array(capacity);
+    const zs = new Float32Array(capacity);
+    const center = new THREE.Vector3();
+    let n = 0;
+    for (let i = 0; i < count; i += stride) {
+        splatMesh.getSplatCenter(i, center);
+        if (!Number.isFinite(center.x) || !Number.isFinite(center.y) || !Number.isFinite(center.z)) continue;
+        if (crop && !cropContains(crop, center)) continue;
+        xs[n] = center.x;
+        ys[n] = center.y;
+        zs[n] = center.z;
+        n++;
+    }
+    if (n === 0) return null;
+
+    const lo = THREE.MathUtils.clamp(percentile, 0, 0.49);
+    const [minX, maxX] = percentileRange(xs.subarray(0, n), lo);
+    const [minY, maxY] = percentileRange(ys.subarray(0, n), lo);
+    const [minZ, maxZ] = percentileRange(zs.subarray(0, n), lo);
+    return new THREE.Box3(new THREE.Vector3(minX, minY, minZ), new THREE.Vector3(maxX, maxY, maxZ));
+}
+
+// Original alphas per mesh, so a different (or no) crop can be applied to a cached viewer later.
+const originalAlphas = new WeakMap<object, Uint8Array>();
+
+/**
+ * Hide splats outside `crop` (null shows everything again). Returns the number of hidden splats, or null if
+ * the mesh doesn't expose its color data.
+ */
+export function applySplatCrop(splatMesh: any, crop: SplatCrop | null): number | null {
+    const colors: Uint8Array | undefined = splatMesh?.splatDataTextures?.baseData?.colors;
+    const count: number = typeof splatMesh?.getSplatCount === 'function' ? splatMesh.getSplatCount() : 0;
+    if (!colors || !(count > 0) || typeof splatMesh.updateDataTexturesFromBaseData !== 'function') return null;
+
+    let alphas = originalAlphas.get(splatMesh);
+    if (!alphas) {
+        if (!crop) return 0;
+        alphas = new Uint8Array(count);
+        for (let i = 0; i < count; i++) alphas[i] = colors[i * 4 + 3];
+        originalAlphas.set(splatMesh, alphas);
+    }
+
+    const center = new THREE.Vector3();
+    let hidden = 0;
+    for (let i = 0; i < count; i++) {
+        let visible = true;
+        if (crop) {
+            splatMesh.getSplatCenter(i, center);
+            visible = cropContains(crop, center);
+        }
+        colors[i * 4 + 3] = visible ? alphas[i] : 0;
+        if (!visible) hidden++;
+    }
+    splatMesh.updateDataTexturesFromBaseData(0, count - 1);
+    if (!crop) originalAlphas.delete(splatMesh);
+    return hidden;
+}
+
+function percentileRange(values: Float32Array, lo: number): [number, number] {
+    values.sort();
+    const last = values.length - 1;
+    return [values[Math.floor(lo * last)], values[Math.ceil((1 - lo) * last)]];
+}
+
+function readVec3(raw: unknown): [number, number, number] | null {
+    if (!Array.isArray(raw) || raw.length !== 3 || !raw.every((n) => typeof n === 'number' && Number.isFinite(n))) return null;
+    return [raw[0], raw[1], raw[2]];
+}
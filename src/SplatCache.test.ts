@@ -0,0 +1,108 @@
+import type { DropInViewer } from '@mkkellogg/gaussian-splats-3d';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SplatCache } from './SplatCache';
+
+// Downloads go through the real downloadSplat() against a stubbed fetch that serves `SIZES[url]` bytes;
+// viewers are stand-ins with just `dispose()`. Budgets are in bytes so the sizes stay tiny.
+
+const SIZES: Record<string, number> = { a: 100, b: 100, c: 100, d: 100, big: 500 };
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+    fetchMock = vi.fn(async (url: string) => new Response(new Uint8Array(SIZES[url])));
+    vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+function fakeViewer() {
+    return { dispose: vi.fn(() => Promise.resolve()) };
+}
+
+function cachedUrls(cache: SplatCache): string[] {
+    return cache.stats().entries.map((entry) => entry.url);
+}
+
+describe('SplatCache', () => {
+    it('evicts the least recently used file first', async () => {
+        const cache = new SplatCache({ memoryBudgetBytes: 300 });
+        await cache.fetchFile('a');
+        await cache.fetchFile('b');
+        await cache.fetchFile('c');
+        expect(cachedUrls(cache)).toEqual(['a', 'b', 'c']);
+
+        // A cache hit refreshes `a` without downloading it again.
+        const file = await cache.fetchFile('a');
+        expect(file.size).toBe(100);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+        expect(cachedUrls(cache)).toEqual(['b', 'c', 'a']);
+
+        await cache.fetchFile('d');
+        expect(cachedUrls(cache)).toEqual(['c', 'a', 'd']);
+        expect(cache.stats().usedBytes).toBe(300);
+        expect(cache.hasScene('b')).toBe(false);
+    });
+
+    it('counts viewers at their memory factor and disposes them on eviction', async () => {
+        const cache = new SplatCache({ memoryBudgetBytes: 450, viewerMemoryFactor: 2 });
+        const viewerA = fakeViewer();
+        const viewerB = fakeViewer();
+        cache.storeViewer('a', viewerA as unknown as DropInViewer, 100);
+        cache.storeViewer('b', viewerB as unknown as DropInViewer, 100);
+        expect(cache.stats().entries).toEqual([
+            { url: 'a', kind: 'viewer', bytes: 200 },
+            { url: 'b', kind: 'viewer', bytes: 200 },
+        ]);
+
+        await cache.fetchFile('c');
+        expect(cachedUrls(cache)).toEqual(['b', 'c']);
+        expect(viewerA.dispose).toHaveBeenCalledTimes(1);
+        expect(viewerB.dispose).not.toHaveBeenCalled();
+    });
+
+    it('hands out a viewer without disposing it and frees its budget', () => {
+        const cache = new SplatCache({ memoryBudgetBytes: 500, viewerMemoryFactor: 2 });
+        const viewer = fakeViewer();
+        cache.storeViewer('a', viewer as unknown as DropInViewer, 100);
+
+        expect(cache.takeViewer('a')).toEqual({ viewer, fileBytes: 100 });
+        expect(viewer.dispose).not.toHaveBeenCalled();
+        expect(cache.stats().usedBytes).toBe(0);
+        expect(cache.takeViewer('a')).toBeNull();
+    });
+
+    it('keeps a built viewer over the downloaded file for the same scene', async () => {
+        const cache = new SplatCache({ memoryBudgetBytes: 1000, viewerMemoryFactor: 2 });
+        cache.storeViewer('a', fakeViewer() as unknown as DropInViewer, 100);
+        cache.storeViewer('b', fakeViewer() as unknown as DropInViewer, 100);
+        await cache.fetchFile('a');
+        // The viewer entry stays and is refreshed to most recent.
+        expect(cache.stats().entries).toEqual([
+            { url: 'b', kind: 'viewer', bytes: 200 },
+            { url: 'a', kind: 'viewer', bytes: 200 },
+        ]);
+    });
+
+    it('does not cache what exceeds the budget on its own', async () => {
+        const cache = new SplatCache({ memoryBudgetBytes: 300 });
+        await cache.fetchFile('a');
+        const file = await cache.fetchFile('big');
+        expect(file.size).toBe(500);
+        expect(cachedUrls(cache)).toEqual(['a']);
+
+        const viewer = fakeViewer();
+        cache.storeViewer('b', viewer as unknown as DropInViewer, 200);
+        expect(viewer.dispose).toHaveBeenCalledTimes(1);
+        expect(cachedUrls(cache)).toEqual(['a']);
+    });
+
+    it('joins an in-flight download instead of starting another', async () => {
+        const cache = new SplatCache({ memoryBudgetBytes: 300 });
+        const [first, second] = await Promise.all([cache.fetchFile('a'), cache.fetchFile('a')]);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(second).toBe(first);
+    });
+});
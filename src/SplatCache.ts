@@ -0,0 +1,294 @@
+import type { DropInViewer } from '@mkkellogg/gaussian-splats-3d';
+import { SplatLoadCancelledError, downloadSplat, isSplatLoadCancelled, throwIfAborted } from './SplatDownloader';
+import type { SplatProgressCallback } from './SplatDownloader';
+import { createLogger } from './Logger';
+
+// In-memory LRU of splat scenes, keyed by splat URL.
+// Two kinds of entries share one memory budget:
+// - downloaded files, as Blobs (from preloading, or a load whose viewer has since been dropped)
+// - fully built viewers that were switched away from (instant to re-attach, no download/decode)
+// The active viewer is owned by PortalSystem and is not counted until it is handed back.
+
+const log = createLogger('SplatCache');
+
+export interface SplatCacheOptions {
+    memoryBudgetBytes?: number;
+    // Rough ratio of a built viewer's footprint (decoded splat buffers + GPU textures) to its file size.
+    viewerMemoryFactor?: number;
+}
+
+export interface SplatCacheStats {
+    entries: { url: string; kind: 'file' | 'viewer'; bytes: number }[];
+    usedBytes: number;
+    budgetBytes: number;
+    preloading: string[];
+}
+
+interface CacheEntry {
+    url: string;
+    file: Blob | null;
+    viewer: DropInViewer | null;
+    fileBytes: number;
+    bytes: number;
+}
+
+interface PendingDownload {
+    controller: AbortController;
+    promise: Promise<Blob>;
+    listeners: Set<SplatProgressCallback>;
+    // Number of fetchFile() callers currently waiting on this download.
+    waiters: number;
+    isPreload: boolean;
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+export const DEFAULT_SPLAT_CACHE_BUDGET_MB = 320;
+const DEFAULT_VIEWER_MEMORY_FACTOR = 4;
+
+export class SplatCache {
+    // Map iteration order doubles as LRU order (oldest first); `touch` re-inserts an entry at the end.
+    private readonly entries = new Map<string, CacheEntry>();
+    private readonly downloads = new Map<string, PendingDownload>();
+    private preloadQueue: string[] = [];
+    private usedBytes = 0;
+    private readonly budgetBytes: number;
+    private readonly viewerMemoryFactor: number;
+
+    constructor(options: SplatCacheOptions = {}) {
+        this.budgetBytes = Math.max(0, options.memoryBudgetBytes ?? DEFAULT_SPLAT_CACHE_BUDGET_MB * BYTES_PER_MB);
+        this.viewerMemoryFactor = options.viewerMemoryFactor ?? DEFAULT_VIEWER_MEMORY_FACTOR;
+    }
+
+    /** Remove and return a built viewer for `url`; the caller owns (and must eventually release) it. */
+    public takeViewer(url: string): { viewer: DropInViewer; fileBytes: number } | null {
+        const entry = this.entries.get(url);
+        if (!entry?.viewer) return null;
+        this.deleteEntry(entry, false);
+        return { viewer: entry.viewer, fileBytes: entry.fileBytes };
+    }
+
+    /** Hand a built viewer back to the cache. It is disposed right away if it doesn't fit the budget. */
+    public storeViewer(url: string, viewer: DropInViewer, fileBytes: number) {
+        const bytes = fileBytes * this.viewerMemoryFactor;
+        if (bytes > this.budgetBytes) {
+            // Too big to keep around built; any cached file bytes for it stay (no re-download at least).
+            viewer.dispose().catch((err) => log.warn('Failed to dispose viewer:', err));
+            return;
+        }
+        this.insert({ url, file: null, viewer, fileBytes, bytes });
+    }
+
+    public hasScene(url: string): boolean {
+        return this.entries.has(url);
+    }
+
+    /**
+     * Resolve the file for `url`: from the cache, by joining an in-flight download (e.g. a preload of
+     * the card the user just tapped), or by starting a new download. Aborting `signal` only detaches this
+     * caller; a shared preload keeps going unless it is cancelled separately.
+     */
+    public fetchFile(url: string, options: { signal?: AbortSignal; onProgress?: SplatProgressCallback } = {}): Promise<Blob> {
+        const { signal, onProgress } = options;
+        throwIfAborted(signal, url);
+
+        const entry = this.entries.get(url);
+        if (entry?.file) {
+            this.touch(entry);
+            return Promise.resolve(entry.file);
+        }
+
+        let pending = this.downloads.get(url);
+        if (pending) {
+            // A real load now depends on it: don't let `cancelPreloads` abort it anymore.
+            pending.isPreload = false;
+        } else {
+            pending = this.startDownload(url, false);
+        }
+        return this.attach(url, pending, signal, onProgress);
+    }
+
+    /**
+     * Replace the preload queue with `urls` (most important first). Preloads run one at a time so they don't
+     * compete for bandwidth; anything already cached or downloading is skipped.
+     */
+    public preload(urls: string[]) {
+        this.preloadQueue = urls.filter((url) => !this.entries.has(url) && !this.downloads.has(url));
+        this.pumpPreloads();
+    }
+
+    /** Abort queued and in-flight preloads, except the one for `keepUrl` (which a real load is about to use). */
+    public cancelPreloads(keepUrl?: string) {
+        this.preloadQueue = [];
+        for (const [url, pending] of this.downloads) {
+            if (!pending.isPreload || url === keepUrl) continue;
+            pending.controller.abort('preload cancelled');
+        }
+    }
+
+    public stats(): SplatCacheStats {
+        return {
+            entries: Array.from(this.entries.values()).map((e) => ({
+                url: e.url,
+                kind: e.viewer ? 'viewer' : 'file',
+                bytes: e.bytes,
+            })),
+            usedBytes: this.usedBytes,
+            budgetBytes: this.budgetBytes,
+            preloading: Array.from(this.downloads.entries())
+                .filter(([, p]) => p.isPreload)
+                .map(([url]) => url),
+        };
+    }
+
+    public clear() {
+        this.cancelPreloads();
+        for (const entry of Array.from(this.entries.values())) this.deleteEntry(entry, true);
+    }
+
+    private startDownload(url: string, isPreload: boolean): PendingDownload {
+        const controller = new AbortController();
+        const listeners = new Set<SplatProgressCallback>();
+        const promise = downloadSplat(url, {
+            signal: controller.signal,
+            onProgress: (progress) => listeners.forEach((listener) => listener(progress)),
+        })
+            .then((file) => {
+                this.insert({ url, file, viewer: null, fileBytes: file.size, bytes: file.size });
+                return file;
+            })
+            .finally(() => {
+                this.downloads.delete(url);
+                this.pumpPreloads();
+            });
+        const pending: PendingDownload = { controller, promise, listeners, waiters: 0, isPreload };
+        this.downloads.set(url, pending);
+        return pending;
+    }
+
+    private attach(
+        url: string,
+        pending: PendingDownload,
+        signal: AbortSignal | undefined,
+        onProgress: SplatProgressCallback | undefined
+    ): Promise<Blob> {
+        if (onProgress) pending.listeners.add(onProgress);
+        pending.waiters++;
+        let attached = true;
+        const detach = () => {
+            if (!attached) return;
+            attached = false;
+            if (onProgress) pending.listeners.delete(onProgress);
+            pending.waiters--;
+        };
+
+        if (!signal) return pending.promise.finally(detach);
+
+        return new Promise<Blob>((resolve, reject) => {
+            const onAbort = () => {
+                detach();
+                // Nobody else is waiting for this download: stop it instead of finishing in the background.
+                if (!pending.isPreload && pending.waiters === 0) pending.controller.abort(signal.reason);
+                reject(new SplatLoadCancelledError(url, String(signal.reason)));
+            };
+            signal.addEventListener('abort', onAbort, { once: true });
+            pending.promise.then(
+                (file) => {
+                    signal.removeEventListener('abort', onAbort);
+                    detach();
+                    resolve(file);
+                },
+                (err) => {
+                    signal.removeEventListener('abort', onAbort);
+                    detach();
+                    reject(err);
+                }
+            );
+        });
+    }
+
+    private pumpPreloads() {
+        // One preload at a time; real loads are not counted against this.
+        for (const pending of this.downloads.values()) {
+            if (pending.isPreload) return;
+        }
+        while (this.preloadQueue.length > 0) {
+            const url = this.preloadQueue.shift()!;
+            if (this.entries.has(url) || this.downloads.has(url)) continue;
+            log.info(`Preloading: ${url}`);
+            this.startDownload(url, true).promise.catch((err) => {
+                if (!isSplatLoadCancelled(err)) log.warn(`Preload failed: ${url}`, err);
+            });
+            return;
+        }
+    }
+
+    private insert(entry: CacheEntry) {
+        const existing = this.entries.get(entry.url);
+        if (existing) {
+            // A built viewer beats raw bytes for the same scene.
+            if (existing.viewer && !entry.viewer) {
+                this.touch(existing);
+                return;
+            }
+            this.deleteEntry(existing, true);
+        }
+
+        if (entry.bytes > this.budgetBytes) {
+            log.info(`Not caching ${entry.url}: ${formatMb(entry.bytes)} exceeds budget ${formatMb(this.budgetBytes)}`);
+            this.disposeEntry(entry);
+            return;
+        }
+
+        this.entries.set(entry.url, entry);
+        this.usedBytes += entry.bytes;
+        this.evict();
+    }
+
+    private evict() {
+        for (const entry of Array.from(this.entries.values())) {
+            if (this.usedBytes <= this.budgetBytes) break;
+            log.info(`Evicting ${entry.url} (${formatMb(entry.bytes)})`);
+            this.deleteEntry(entry, true);
+        }
+    }
+
+    private touch(entry: CacheEntry) {
+        this.entries.delete(entry.url);
+        this.entries.set(entry.url, entry);
+    }
+
+    private deleteEntry(entry: CacheEntry, dispose: boolean) {
+        if (this.entries.get(entry.url) !== entry) return;
+        this.entries.delete(entry.url);
+        this.usedBytes -= entry.bytes;
+        if (dispose) this.disposeEntry(entry);
+    }
+
+    private disposeEntry(entry: CacheEntry) {
+        entry.file = null;
+        if (entry.viewer) {
+            entry.viewer.dispose().catch((err) => log.warn('Failed to dispose viewer:', err));
+            entry.viewer = null;
+        }
+    }
+}
+
+/**
+ * Cache budget in bytes. Precedence: `?splatCacheMB=` URL param > `VITE_SPLAT_CACHE_MB` > default.
+ * `0` disables caching (every switch downloads and decodes again, like before).
+ */
+export function resolveSplatCacheBudgetBytes(): number {
+    const urlRaw = typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('splatCacheMB') : null;
+    const envRaw = import.meta.env.VITE_SPLAT_CACHE_MB;
+    for (const raw of [urlRaw, envRaw]) {
+        if (raw === null || raw === undefined || raw === '') continue;
+        const mb = Number(raw);
+        if (Number.isFinite(mb) && mb >= 0) return Math.min(mb, 4096) * BYTES_PER_MB;
+        log.warn(`Ignoring invalid cache budget: ${raw}`);
+    }
+    return DEFAULT_SPLAT_CACHE_BUDGET_MB * BYTES_PER_MB;
+}
+
+function formatMb(bytes: number) {
+    return `${(bytes / BYTES_PER_MB).toFixed(1)} MB`;
+}
@@ -0,0 +1,128 @@
+// Byte-level splat download.
+// `DropInViewer.addSplatScene` only reports a percent (and nothing at all when the server omits Content-Length),
+// so we fetch the file ourselves, stream it with progress, and hand the viewer an in-memory blob URL.
+// The result is a Blob assembled straight from the streamed chunks: no merged copy of the file is made, and
+// the same Blob is handed on as-is (large .spz files on phones can't afford 2-3 copies).
+
+export type SplatLoadPhase = 'downloading' | 'processing' | 'done';
+
+export interface SplatLoadProgress {
+    phase: SplatLoadPhase;
+    // Bytes received so far / expected total (null when the server doesn't send Content-Length).
+    loadedBytes: number;
+    totalBytes: number | null;
+    // 0..100, or null while it can't be determined (unknown size, or processing without sub-steps).
+    percent: number | null;
+    bytesPerSecond: number | null;
+    etaSeconds: number | null;
+}
+
+export type SplatProgressCallback = (progress: SplatLoadProgress) => void;
+
+export interface DownloadSplatOptions {
+    onProgress?: SplatProgressCallback;
+    signal?: AbortSignal;
+}
+
+/**
+ * Rejection reason for a load that was aborted, either explicitly through its AbortSignal or because a newer
+ * load superseded it. Callers should treat it as "nothing to report", not as a failure.
+ */
+export class SplatLoadCancelledError extends Error {
+    public readonly url: string;
+
+    constructor(url: string, reason: string = 'cancelled') {
+        super(`Splat load ${reason}: ${url}`);
+        this.name = 'SplatLoadCancelledError';
+        this.url = url;
+    }
+}
+
+export function isSplatLoadCancelled(err: unknown): err is SplatLoadCancelledError {
+    return err instanceof SplatLoadCancelledError;
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined, url: string) {
+    if (signal?.aborted) throw new SplatLoadCancelledError(url, abortReasonText(signal));
+}
+
+function abortReasonText(signal: AbortSignal): string {
+    return typeof signal.reason === 'string' ? signal.reason : 'cancelled';
+}
+
+// Throttle UI updates; the stream can deliver hundreds of small chunks per second.
+const PROGRESS_INTERVAL_MS = 100;
+
+export async function downloadSplat(url: string, options: DownloadSplatOptions = {}): Promise<Blob> {
+    const { signal } = options;
+    try {
+        return await downloadSplatUnchecked(url, options);
+    } catch (err) {
+        // fetch()/reader.read() reject with a DOMException('AbortError'); normalize it to our typed error.
+        if (signal?.aborted) throw new SplatLoadCancelledError(url, abortReasonText(signal));
+        throw err;
+    }
+}
+
+async function downloadSplatUnchecked(url: string, options: DownloadSplatOptions): Promise<Blob> {
+    const { onProgress, signal } = options;
+    throwIfAborted(signal, url);
+    const res = await fetch(url, { signal });
+    if (!res.ok) {
+        throw new Error(`Fetch failed: ${res.status} ${res.statusText} (${url})`);
+    }
+
+    const lengthHeader = res.headers.get('Content-Length');
+    const parsedLength = lengthHeader ? parseInt(lengthHeader, 10) : NaN;
+    const totalBytes = Number.isFinite(parsedLength) && parsedLength > 0 ? parsedLength : null;
+
+    // No streaming support (old WebViews): fall back to a single progress report at the end.
+    if (!res.body) {
+        const blob = await res.blob();
+        onProgress?.(makeProgress('downloading', blob.size, blob.size, null));
+        return blob;
+    }
+
+    const reader = res.body.getReader();
+    const chunks: BlobPart[] = [];
+    const startedAt = performance.now();
+    let loadedBytes = 0;
+    let lastReportAt = 0;
+
+    onProgress?.(makeProgress('downloading', 0, totalBytes, null));
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (!value) continue;
+        chunks.push(value);
+        loadedBytes += value.byteLength;
+
+        const now = performance.now();
+        if (onProgress && now - lastReportAt >= PROGRESS_INTERVAL_MS) {
+            lastReportAt = now;
+            const elapsedSec = (now - startedAt) / 1000;
+            const rate = elapsedSec > 0 ? loadedBytes / elapsedSec : null;
+            onProgress(makeProgress('downloading', loadedBytes, totalBytes, rate));
+        }
+    }
+
+    const blob = new Blob(chunks);
+    // Let the chunks go as soon as the Blob holds the bytes.
+    chunks.length = 0;
+
+    onProgress?.(makeProgress('downloading', loadedBytes, loadedBytes, null));
+    return blob;
+}
+
+export function makeProgress(
+    phase: SplatLoadPhase,
+    loadedBytes: number,
+    totalBytes: number | null,
+    bytesPerSecond: number | null
+): SplatLoadProgress {
+    const percent = totalBytes ? Math.min(100, (loadedBytes / totalBytes) * 100) : null;
+    const etaSeconds =
+        totalBytes && bytesPerSecond && bytesPerSecond > 0 ? Math.max(0, (totalBytes - loadedBytes) / bytesPerSecond) : null;
+    return { phase, loadedBytes, totalBytes, percent, bytesPerSecond, etaSeconds };
+}
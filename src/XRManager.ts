@@ -1,6 +1,27 @@
 import * as THREE from 'three';
 import { ARButton } from 'three/examples/jsm/webxr/ARButton.js';
-import { PortalSystem } from './PortalSystem';
+import type { PortalSystem } from './PortalSystem';
+import { PortalManager } from './PortalManager';
+import type { ManagedPortal } from './PortalManager';
+import type { SceneCatalog } from './SceneCatalog';
+import { LoadingScreen } from './LoadingScreen';
+import { isSplatLoadCancelled } from './SplatDownloader';
+import { InlineControls } from './InlineControls';
+import { PortalPlacement, resolvePlacementMode } from './PortalPlacement';
+import { PortalAnchors } from './PortalAnchors';
+import { CaptureManager, shareOrDownload } from './CaptureManager';
+import { PortalAudio } from './PortalAudio';
+import { localize, onLocaleChange, t } from './I18n';
+import { SceneActionRegistry } from './SceneActions';
+import { registerBuiltinSceneActions } from './BuiltinSceneActions';
+import { createLogger, isDebugEnabled } from './Logger';
+import { DiagnosticsOverlay } from './DiagnosticsOverlay';
+import { buildDebugBundle, exportDebugBundle } from './DebugBundle';
+
+const log = createLogger('XRManager');
+
+// Inline preview: how far in front of the starting eye position the door is placed (meters).
+const INLINE_PORTAL_DISTANCE = 2.5;
 
 export class XRManager {
     public scene: THREE.Scene;
@@ -8,30 +29,42 @@ export class XRManager {
     public renderer: THREE.WebGLRenderer;
     
     private reticle: THREE.Mesh;
-    private hitTestSource: any = null; // XRHitTestSource type definition might be missing in basic types
-    private hitTestSourceRequested: boolean = false;
-    private hasPlaced: boolean = false; // Flag for auto-placement
     private isStartingSession: boolean = false;
     
-    private portalSystem: PortalSystem;
+    // All doors in the room; scene switches, placement and gestures act on the active one.
+    private portals: PortalManager;
+    // Reticle + tap placement, drag/twist gestures (hit-test sources live there).
+    private placement: PortalPlacement;
+    // XRAnchors for placed doors; persistent ones restore the doors in the next session.
+    private anchors: PortalAnchors;
+    // Photo / clip capture of the rendered frame (over the camera image where the runtime allows it).
+    private capture: CaptureManager;
+    // Per-scene ambient sound / emitters on each door.
+    private audio: PortalAudio;
+    // Behaviours behind the scene cards' action buttons ("orbit", "snowball", ...).
+    private readonly sceneActions = new SceneActionRegistry();
+    // FPS / crossing / opening panel, only while debugging (`?debug=1`).
+    private diagnostics: DiagnosticsOverlay | null = null;
+    // Re-evaluates which overlay buttons apply (set up in setupUI; the inline preview calls it too).
+    private refreshControls: () => void = () => {};
     private controller: THREE.XRTargetRaySpace;
+
+    // Inline (non-AR) preview: same portal group rendered on the normal canvas with first-person controls.
+    private inlineControls: InlineControls;
+    private isInlineMode: boolean = false;
+    private inlineFloor: THREE.GridHelper | null = null;
+    private lastFrameTimestamp: number | null = null;
     // (kept for future platform-specific UI, but unused right now)
     // private readonly isAndroid: boolean =
     //     typeof navigator !== 'undefined' && /Android/i.test(navigator.userAgent);
 
-    // Config for scenes
-    private readonly SCENES: Record<string, string> = {
-        cthulhu_hall: 'https://glb.keithhe.com/ar/spz/cthulhu_hall.spz',
-        planet: 'https://glb.keithhe.com/ar/spz/planet.spz',
-        'color-trees': 'https://glb.keithhe.com/ar/spz/color-trees.spz',
-        'game-snow': 'https://glb.keithhe.com/ar/spz/game-snow.spz',
-        'sci-fi-pryamid': 'https://glb.keithhe.com/ar/spz/sci-fi-pryamid.spz',
-        throne: 'https://glb.keithhe.com/ar/spz/throne.spz',
-        wedding: 'https://glb.keithhe.com/ar/spz/wedding.spz',
-        xmas_tree: 'https://glb.keithhe.com/ar/spz/xmas_tree.spz',
-    };
-
-    constructor() {
+    // Scene catalog (loaded from the manifest before the app starts)
+    private readonly catalog: SceneCatalog;
+    private readonly loadingScreen = new LoadingScreen();
+
+    constructor(catalog: SceneCatalog) {
+        this.catalog = catalog;
+
         // 1. Setup Scene
         this.scene = new THREE.Scene();
 
@@ -58,13 +91,33 @@ export class XRManager {
         this.reticle = this.createReticle();
         this.scene.add(this.reticle);
         
-        // 6. Setup Portal System
-        this.portalSystem = new PortalSystem();
-        this.scene.add(this.portalSystem.group);
+        // 6. Setup Portal System(s)
+        this.portals = new PortalManager(this.scene);
+        this.placement = new PortalPlacement(this.portalSystem, this.reticle, {
+            mode: resolvePlacementMode(),
+            getViewer: () => this.renderer.xr.getCamera() as unknown as THREE.Camera,
+        });
+        this.anchors = new PortalAnchors(this.portals);
+        this.capture = new CaptureManager(this.renderer);
+        this.audio = new PortalAudio(this.portals, catalog);
+        registerBuiltinSceneActions(this.sceneActions);
+        this.anchors.addEventListener('restored', ({ entry, sceneKey }) => {
+            if (entry === this.portals.active) this.placement.setTarget(entry.portal);
+            // Reopen the world this door showed last time (loads into the restored door).
+            if (sceneKey && sceneKey !== entry.sceneKey && this.catalog.get(sceneKey)) {
+                this.portals.setActive(entry);
+                void this.switchScene(sceneKey);
+            }
+        });
 
-        // Optional debugging from vConsole:
-        // - Add `?debugPortal=1` to enable periodic logs
-        // - Call `window.__portalDebug.dump()` anytime
+        // Optional debugging (vConsole is loaded with `?debug=1`):
+        // - `?debug=1` (or `?debugPortal=1`) enables debug logs and the diagnostics overlay
+        // - Call `window.__portalDebug.dump()` anytime; `await window.__portalDebug.bundle()` for the debug bundle
+        const bundleSource = { portals: this.portals, renderer: this.renderer };
+        const diagnosticsRoot = document.getElementById('diagnostics');
+        if (isDebugEnabled() && diagnosticsRoot) {
+            this.diagnostics = new DiagnosticsOverlay(this.portals, diagnosticsRoot, () => exportDebugBundle(bundleSource));
+        }
         if (typeof window !== 'undefined') {
             // @ts-ignore
             window.__portalDebug = {
@@ -72,24 +125,36 @@ export class XRManager {
                     // In this three.js version, getCamera() takes no args and returns the XR ArrayCamera.
                     const xrCamera = this.renderer.xr.getCamera() as unknown as THREE.Camera;
                     // Force one update tick so cameraLocalZ is fresh
-                    this.portalSystem.update(xrCamera);
-                    const state = this.portalSystem.debugDump();
-                    console.log('[PortalDebug][dump]', state);
+                    this.portals.update(xrCamera);
+                    const state = this.portals.debugDump();
+                    log.info('Debug dump', state);
                     return state;
                 },
+                bundle: () => buildDebugBundle(bundleSource),
             };
         }
 
+        this.inlineControls = new InlineControls(
+            this.camera,
+            this.renderer.domElement,
+            document.getElementById('inline-joystick'),
+            { onTap: () => this.sceneActions.select() }
+        );
+
         // 7. Setup Controller (Input)
         this.controller = this.renderer.xr.getController(0);
-        this.controller.addEventListener('select', this.onSelect.bind(this));
+        // Placing (or re-placing) takes the tap; otherwise it goes to the running scene action.
+        this.controller.addEventListener('select', () => {
+            if (this.placement.isPlacing) this.placement.select();
+            else this.sceneActions.select();
+        });
         this.scene.add(this.controller);
 
         // 8. Setup AR Button with DOM Overlay (Hidden, driven by custom UI)
         const overlay = document.getElementById('overlay');
         const arButton = ARButton.createButton(this.renderer, { 
             requiredFeatures: ['hit-test'],
-            optionalFeatures: ['dom-overlay'],
+            optionalFeatures: ['dom-overlay', 'anchors', 'camera-access'],
             domOverlay: { root: overlay! }
         });
         
@@ -101,19 +166,22 @@ export class XRManager {
         const startPrompt = document.getElementById('start-prompt') as HTMLElement | null;
         const startButton = document.getElementById('start-ar') as HTMLButtonElement | null;
         const startError = document.getElementById('start-error') as HTMLElement | null;
+        const startInline = document.getElementById('start-inline') as HTMLButtonElement | null;
 
         // Keep UI in sync with XR session lifecycle.
         this.renderer.xr.addEventListener('sessionstart', () => {
             this.isStartingSession = false;
+            this.onSessionStart();
             if (startPrompt) startPrompt.style.display = 'none';
         });
         this.renderer.xr.addEventListener('sessionend', () => {
             this.isStartingSession = false;
+            this.onSessionEnd();
             if (startPrompt) startPrompt.style.display = 'flex';
         });
 
         const handleShowStartError = (msg: string) => {
-            console.error('[XRManager] AR start failed:', msg);
+            log.error('AR start failed:', msg);
             if (!startError) return;
             startError.style.display = 'block';
             startError.textContent = msg;
@@ -125,8 +193,15 @@ export class XRManager {
             startError.textContent = '';
         };
 
+        // Offer the inline 3D preview whenever AR can't run on this device/browser.
+        const handleShowInlineOption = () => {
+            if (startInline) startInline.style.display = 'block';
+        };
+
         const handleStartAR = async () => {
             handleHideStartError();
+            // Still inside the click: the only chance to let scene audio play later.
+            this.audio.unlock();
 
             // Single-flight + avoid starting a second active session.
             if (this.isStartingSession) return;
@@ -136,13 +211,12 @@ export class XRManager {
             }
 
             const xr = (navigator as any)?.xr;
-            console.log('[XRManager] UA:', navigator.userAgent);
-            console.log('[XRManager] userActivation:', (navigator as any)?.userActivation);
+            log.info('UA:', navigator.userAgent);
+            log.info('userActivation:', (navigator as any)?.userActivation);
 
             if (!xr) {
-                handleShowStartError(
-                    'WebXR 不可用。\nAndroid: 请确认使用 HTTPS、Chrome 支持 WebXR，并安装 Google Play Services for AR。\niOS: 请使用 WebXR Viewer。'
-                );
+                handleShowStartError(t('start.noWebXR'));
+                handleShowInlineOption();
                 return;
             }
 
@@ -151,7 +225,7 @@ export class XRManager {
             // Prefer direct requestSession from a trusted user gesture (fixes Android where synthetic click may fail).
             const sessionInit: any = {
                 requiredFeatures: ['hit-test'],
-                optionalFeatures: ['dom-overlay'],
+                optionalFeatures: ['dom-overlay', 'anchors', 'camera-access'],
                 domOverlay: { root: overlay! },
             };
 
@@ -160,14 +234,15 @@ export class XRManager {
                 if (supportPromise && typeof supportPromise.then === 'function') {
                     supportPromise
                         .then((supported: boolean) => {
-                            console.log('[XRManager] isSessionSupported(immersive-ar):', supported);
+                            log.info('isSessionSupported(immersive-ar):', supported);
+                            if (!supported) handleShowInlineOption();
                         })
                         .catch((e: unknown) => {
-                            console.log('[XRManager] isSessionSupported check failed:', e);
+                            log.info('isSessionSupported check failed:', e);
                         });
                 }
             } catch (e) {
-                console.log('[XRManager] isSessionSupported check failed:', e);
+                log.info('isSessionSupported check failed:', e);
             }
 
             try {
@@ -195,14 +270,15 @@ export class XRManager {
                     } else if (!isAlreadyActive) {
                         throw setErr;
                     }
-                    console.warn('[XRManager] setSession ignored (session already active):', setErr);
+                    log.warn('setSession ignored (session already active):', setErr);
                 }
                 if (startPrompt) startPrompt.style.display = 'none';
                 return;
             } catch (err) {
                 const msg = err instanceof Error ? err.message : String(err);
-                console.error('[XRManager] requestSession failed:', err);
-                handleShowStartError(`无法启动 AR：${msg}`);
+                log.error('requestSession failed:', err);
+                handleShowStartError(t('start.failed', { message: msg }));
+                handleShowInlineOption();
                 if (startPrompt) startPrompt.style.display = 'flex';
             } finally {
                 // sessionstart event will also clear this; keep it safe in failure paths.
@@ -221,6 +297,27 @@ export class XRManager {
             startPrompt.addEventListener('click', () => void handleStartAR());
         }
 
+        if (startInline) {
+            startInline.addEventListener('click', (e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                this.audio.unlock();
+                this.enterInlineMode();
+            });
+        }
+
+        // Probe up front so desktops / iPhones see the preview option before hitting a dead end.
+        const xrProbe = (navigator as any)?.xr;
+        if (!xrProbe?.isSessionSupported) {
+            handleShowInlineOption();
+        } else {
+            Promise.resolve(xrProbe.isSessionSupported('immersive-ar'))
+                .then((supported: boolean) => {
+                    if (!supported) handleShowInlineOption();
+                })
+                .catch(() => handleShowInlineOption());
+        }
+
         // 9. Event Listeners
         window.addEventListener('resize', this.onWindowResize.bind(this));
 
@@ -233,41 +330,43 @@ export class XRManager {
         const cards = document.querySelectorAll('.scene-card');
         const actions = document.querySelectorAll('.scene-action');
         const selectionScreen = document.getElementById('scene-selection-screen');
-        const loadingScreen = document.getElementById('loading-screen');
-        const loadingText = loadingScreen?.querySelector('.loading-text') as HTMLElement | null;
         const arUi = document.getElementById('ar-ui');
         const sceneSelector = document.getElementById('scene-selector') as HTMLSelectElement;
 
-        const handlePickScene = async (sceneKey: string) => {
+        // `actionId`: the card's action button, if that's what was tapped (see SceneActions).
+        const handlePickScene = async (sceneKey: string, actionId: string | null = null) => {
             if (!sceneKey) return;
 
             // Show Loading
             if (selectionScreen) selectionScreen.style.display = 'none';
-            if (loadingScreen) loadingScreen.style.display = 'flex';
-            if (loadingText) loadingText.textContent = '平行宇宙正在加载中...';
+            this.loadingScreen.show(this.getLoadingMessage(sceneKey));
 
             // Update internal state and AR UI selector
             if (sceneSelector) sceneSelector.value = sceneKey;
 
             try {
-                await this.handleSceneChange(sceneKey);
-                if (loadingScreen) loadingScreen.style.display = 'none';
+                const entry = await this.handleSceneChange(sceneKey);
+                if (actionId) {
+                    this.sceneActions.arm({
+                        actionId,
+                        sceneKey,
+                        entry,
+                        scene: this.scene,
+                        getViewer: () => this.getViewer(),
+                    });
+                } else {
+                    this.sceneActions.stop();
+                }
+                this.loadingScreen.hide();
                 if (arUi) arUi.style.display = 'block';
             } catch (err) {
-                console.error('[XRManager] Scene load failed:', err);
-                if (loadingText) {
-                    const msg = err instanceof Error ? err.message : String(err);
-                    loadingText.textContent = `加载失败：${msg}\n点击返回`;
-                }
-                if (loadingScreen) {
-                    loadingScreen.onclick = () => {
-                        loadingScreen.style.display = 'none';
-                        if (selectionScreen) selectionScreen.style.display = 'flex';
-                        loadingScreen.onclick = null;
-                    };
-                } else if (selectionScreen) {
-                    selectionScreen.style.display = 'flex';
-                }
+                // Superseded by a newer pick: that request owns the loading screen now.
+                if (isSplatLoadCancelled(err)) return;
+                log.error('Scene load failed:', err);
+                const msg = err instanceof Error ? err.message : String(err);
+                this.loadingScreen.showError(t('loading.failed', { message: msg }), () => {
+                    if (selectionScreen) selectionScreen.style.display = 'flex';
+                });
             }
         };
 
@@ -283,58 +382,209 @@ export class XRManager {
                 e.preventDefault();
                 e.stopPropagation();
                 const sceneKey = (btn as HTMLElement).getAttribute('data-scene') ?? '';
-                await handlePickScene(sceneKey);
+                await handlePickScene(sceneKey, (btn as HTMLElement).dataset.action ?? null);
             });
         });
     }
 
     private setupUI() {
-        const selector = document.getElementById('scene-selector') as HTMLSelectElement;
+        const uiContainer = document.getElementById('ui-container');
+        // Taps on overlay controls must not also count as an XR select (which would place the door).
+        uiContainer?.addEventListener('beforexrselect', (e) => e.preventDefault());
+
+        const exitButton = document.getElementById('exit-ar') as HTMLButtonElement | null;
+        const photoButton = document.getElementById('capture-photo') as HTMLButtonElement | null;
+        const recordButton = document.getElementById('capture-video') as HTMLButtonElement | null;
+        const muteButton = document.getElementById('audio-mute') as HTMLButtonElement | null;
+        const moveButton = document.getElementById('move-door') as HTMLButtonElement | null;
+        const addButton = document.getElementById('add-door') as HTMLButtonElement | null;
+        const nextButton = document.getElementById('next-door') as HTMLButtonElement | null;
+        const placementHint = document.getElementById('placement-hint');
+        const selector = document.getElementById('scene-selector') as HTMLSelectElement | null;
+
+        // Gestures, re-placement and extra doors only make sense in AR; the inline preview places one door itself.
+        const refreshPortalButtons = () => {
+            const inAR = this.renderer.xr.isPresenting;
+            const placing = this.placement.isPlacing;
+            const isInside = this.portals.inside !== null;
+            const placedCount = this.portals.all.filter((e) => e.portal.group.visible).length;
+            if (exitButton) exitButton.style.display = inAR ? 'block' : 'none';
+            // Capture works in AR and in the inline preview.
+            const canCapture = inAR || this.isInlineMode;
+            if (photoButton) photoButton.style.display = canCapture ? 'block' : 'none';
+            if (recordButton) recordButton.style.display = canCapture && CaptureManager.isVideoSupported() ? 'block' : 'none';
+            if (!canCapture) this.capture.stopRecording();
+            if (muteButton) muteButton.style.display = canCapture && this.audio.hasSceneAudio ? 'block' : 'none';
+            if (moveButton) moveButton.style.display = inAR && this.placement.hasPlaced && !placing && !isInside ? 'block' : 'none';
+            if (placementHint) placementHint.style.display = inAR && placing ? 'block' : 'none';
+            if (addButton) addButton.style.display = inAR && !placing && this.portals.canAdd() ? 'block' : 'none';
+            if (nextButton) {
+                nextButton.style.display = inAR && placedCount > 1 && !isInside ? 'block' : 'none';
+                nextButton.textContent = t('door.next', { current: this.portals.active.id, total: this.portals.all.length });
+            }
+        };
+
+        exitButton?.addEventListener('click', (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            const session = this.renderer.xr.getSession();
+            session?.end().catch((err) => log.warn('Failed to end AR session:', err));
+        });
+        photoButton?.addEventListener('click', (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            photoButton.classList.remove('is-highlighted');
+            this.capture
+                .takePhoto()
+                .then((blob) => shareOrDownload(blob, `portal-${Date.now()}.${blob.type === 'image/png' ? 'png' : 'jpg'}`))
+                .catch((err) => log.warn('Photo capture failed:', err));
+        });
+        recordButton?.addEventListener('click', (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            if (this.capture.isRecording) this.capture.stopRecording();
+            else this.capture.startRecording();
+        });
+        let recordingSeconds: number | null = null;
+        const refreshRecordButton = () => {
+            if (!recordButton) return;
+            recordButton.classList.toggle('is-recording', recordingSeconds !== null);
+            recordButton.textContent =
+                recordingSeconds !== null ? t('capture.stop', { seconds: recordingSeconds }) : t('capture.record');
+        };
+        refreshRecordButton();
+        this.capture.addEventListener('recordingchange', ({ recording, seconds }) => {
+            recordingSeconds = recording ? seconds : null;
+            refreshRecordButton();
+        });
+        const refreshMuteButton = () => {
+            if (muteButton) muteButton.textContent = this.audio.muted ? t('audio.off') : t('audio.on');
+        };
+        refreshMuteButton();
+        muteButton?.addEventListener('click', (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            this.audio.unlock();
+            this.audio.setMuted(!this.audio.muted);
+            refreshMuteButton();
+        });
+        moveButton?.addEventListener('click', (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            this.placement.startMove();
+        });
+        addButton?.addEventListener('click', (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            const entry = this.portals.add();
+            if (!entry) return;
+            const sceneKey = this.pickSceneForNewPortal();
+            if (sceneKey) void this.switchScene(sceneKey);
+        });
+        nextButton?.addEventListener('click', (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            this.portals.activateNext();
+        });
+
+        this.refreshControls = refreshPortalButtons;
+        onLocaleChange(() => {
+            refreshRecordButton();
+            refreshMuteButton();
+            refreshPortalButtons();
+        });
+        this.placement.addEventListener('statechange', refreshPortalButtons);
+        this.portals.addEventListener('insidechange', refreshPortalButtons);
+        this.portals.addEventListener('activechange', ({ entry }) => {
+            this.placement.setTarget(entry.portal);
+            if (selector && entry.sceneKey) selector.value = entry.sceneKey;
+            refreshPortalButtons();
+        });
+        this.renderer.xr.addEventListener('sessionstart', refreshPortalButtons);
+        this.renderer.xr.addEventListener('sessionend', () => {
+            this.capture.stopRecording();
+            for (const el of [exitButton, photoButton, recordButton, muteButton, moveButton, addButton, nextButton, placementHint]) {
+                if (el) el.style.display = 'none';
+            }
+        });
+
         if (selector) {
-            selector.addEventListener('change', async (e) => {
-                const value = (e.target as HTMLSelectElement).value;
-                const loadingScreen = document.getElementById('loading-screen');
-                const loadingText = loadingScreen?.querySelector('.loading-text') as HTMLElement | null;
-                if (loadingScreen) loadingScreen.style.display = 'flex';
-                if (loadingText) loadingText.textContent = '平行宇宙正在加载中...';
-                try {
-                    await this.handleSceneChange(value);
-                    if (loadingScreen) loadingScreen.style.display = 'none';
-                } catch (err) {
-                    console.error('[XRManager] Scene switch failed:', err);
-                    if (loadingText) {
-                        const msg = err instanceof Error ? err.message : String(err);
-                        loadingText.textContent = `切换失败：${msg}\n点击关闭`;
-                    }
-                    if (loadingScreen) {
-                        loadingScreen.onclick = () => {
-                            loadingScreen.style.display = 'none';
-                            loadingScreen.onclick = null;
-                        };
-                    }
-                }
+            selector.addEventListener('change', (e) => {
+                void this.switchScene((e.target as HTMLSelectElement).value);
             });
         }
     }
 
-    private async handleSceneChange(sceneKey: string) {
-        console.log(`[XRManager] Switching to scene: ${sceneKey}`);
-        
-        // @ts-ignore
-        const url = this.SCENES[sceneKey];
-        if (url) {
-            await this.portalSystem.loadSplat(url);
-        } else {
-            console.warn(`[XRManager] Unknown scene key: ${sceneKey}`);
+    // Selector / "add door": load into the active portal with the loading screen; errors are dismissable.
+    private async switchScene(sceneKey: string) {
+        this.loadingScreen.show(this.getLoadingMessage(sceneKey));
+        try {
+            await this.handleSceneChange(sceneKey);
+            this.loadingScreen.hide();
+        } catch (err) {
+            if (isSplatLoadCancelled(err)) return;
+            log.error('Scene switch failed:', err);
+            const msg = err instanceof Error ? err.message : String(err);
+            this.loadingScreen.showError(t('loading.switchFailed', { message: msg }));
         }
     }
 
-    private onSelect() {
-        if (this.reticle.visible) {
-            const position = new THREE.Vector3();
-            position.setFromMatrixPosition(this.reticle.matrix);
-            this.portalSystem.place(position, this.camera);
+    // A new door opens onto a scene no other door shows yet (or the one after the active scene).
+    private pickSceneForNewPortal(): string | null {
+        const used = new Set(this.portals.all.map((e) => e.sceneKey));
+        const unused = this.catalog.entries.find((entry) => !used.has(entry.key));
+        if (unused) return unused.key;
+        const entries = this.catalog.entries;
+        const previous = this.portals.all[this.portals.all.length - 2]?.sceneKey ?? null;
+        const index = previous ? this.catalog.indexOf(previous) : -1;
+        return entries[(index + 1) % entries.length]?.key ?? null;
+    }
+
+    private get portalSystem(): PortalSystem {
+        return this.portals.active.portal;
+    }
+
+    private getLoadingMessage(sceneKey: string) {
+        const entry = this.catalog.get(sceneKey);
+        return entry ? t('loading.titleWithScene', { title: localize(entry.title) }) : t('loading.title');
+    }
+
+    /**
+     * Speculatively download the scene on the active carousel card and its neighbours, so that tapping it
+     * (or the next swipe) doesn't start from zero.
+     */
+    public preloadAround(sceneKey: string) {
+        const index = this.catalog.indexOf(sceneKey);
+        if (index < 0) return;
+        const entries = this.catalog.entries;
+        const urls = [entries[index], entries[index + 1], entries[index - 1]]
+            .filter((entry) => entry !== undefined)
+            .map((entry) => entry.splatUrl);
+        this.portals.preloadSplats(urls);
+    }
+
+    private async handleSceneChange(sceneKey: string): Promise<ManagedPortal> {
+        log.info(`Switching to scene: ${sceneKey}`);
+
+        const entry = this.catalog.get(sceneKey);
+        if (!entry) {
+            // Cards and the selector are generated from the same catalog, so this means a stale/foreign key.
+            throw new Error(`Unknown scene key: ${sceneKey}`);
         }
+        // PortalSystem cancels any in-flight load when this one starts (latest wins), so the selector must
+        // always point at the scene that will actually appear.
+        const sceneSelector = document.getElementById('scene-selector') as HTMLSelectElement | null;
+        if (sceneSelector) sceneSelector.value = sceneKey;
+
+        // The door the load was started for, even if the user makes another door active meanwhile.
+        const target: ManagedPortal = this.portals.active;
+        target.sceneKey = sceneKey;
+        await target.portal.loadSplat(entry.splatUrl, {
+            format: entry.format,
+            portal: entry.portal,
+            onProgress: (progress) => this.loadingScreen.setProgress(progress),
+        });
+        return target;
     }
 
     private createReticle(): THREE.Mesh {
@@ -346,6 +596,81 @@ export class XRManager {
         return reticle;
     }
 
+    /**
+     * Fallback when immersive AR is unavailable: render the portal on the regular canvas, door placed in
+     * front of the user, with drag-to-look and WASD / joystick walking. Crossing uses the same
+     * `PortalSystem.update` inside/outside logic as AR.
+     */
+    public enterInlineMode() {
+        if (this.isInlineMode || this.renderer.xr.isPresenting) return;
+        log.info('Entering inline preview mode');
+        this.isInlineMode = true;
+        this.lastFrameTimestamp = null;
+
+        // No camera feed behind the canvas here, so give the "room" a floor and a backdrop.
+        this.scene.background = new THREE.Color(0x101014);
+        this.inlineFloor = new THREE.GridHelper(20, 40, 0x555566, 0x2a2a33);
+        this.scene.add(this.inlineFloor);
+
+        this.inlineControls.reset(new THREE.Vector3(0, 0, 0));
+        this.inlineControls.enable();
+        this.portalSystem.place(new THREE.Vector3(0, 0, -INLINE_PORTAL_DISTANCE), this.camera);
+        this.placement.markPlaced();
+
+        const startPrompt = document.getElementById('start-prompt');
+        if (startPrompt) startPrompt.style.display = 'none';
+        const inlineHint = document.getElementById('inline-hint');
+        if (inlineHint) inlineHint.style.display = 'block';
+        this.refreshControls();
+    }
+
+    private exitInlineMode() {
+        if (!this.isInlineMode) return;
+        this.isInlineMode = false;
+        this.inlineControls.disable();
+        this.scene.background = null;
+        if (this.inlineFloor) {
+            this.scene.remove(this.inlineFloor);
+            this.inlineFloor.dispose();
+            this.inlineFloor = null;
+        }
+        // Let AR hit-testing place the door for real.
+        this.portals.hideAll();
+        this.placement.reset();
+        const inlineHint = document.getElementById('inline-hint');
+        if (inlineHint) inlineHint.style.display = 'none';
+        this.refreshControls();
+    }
+
+    // Every AR session starts from a clean room: nothing placed, fresh hit-test sources. The scenes loaded
+    // into the doors are kept, so "Enter AR" again shows the world that was chosen before.
+    private onSessionStart() {
+        const session = this.renderer.xr.getSession() as any;
+        log.info('AR session started');
+        // A real AR session takes over from the inline preview.
+        if (this.isInlineMode) this.exitInlineMode();
+        this.lastFrameTimestamp = null;
+        this.portals.hideAll();
+        this.placement.attach(session);
+        this.anchors.attach(session);
+        // Relocalization jumps the camera; crossing must not read that as walking through a door.
+        const referenceSpace = this.renderer.xr.getReferenceSpace() as any;
+        referenceSpace?.addEventListener?.('reset', () => {
+            log.info('Reference space reset');
+            for (const { portal } of this.portals.all) portal.breakCrossingPath();
+        });
+    }
+
+    private onSessionEnd() {
+        log.info('AR session ended');
+        this.lastFrameTimestamp = null;
+        this.placement.detach();
+        this.anchors.detach();
+        // Doors were placed in that session's space; the next one places (or restores) them again.
+        this.portals.hideAll();
+        this.placement.reset();
+    }
+
     private onWindowResize() {
         this.camera.aspect = window.innerWidth / window.innerHeight;
         this.camera.updateProjectionMatrix();
@@ -356,63 +681,34 @@ export class XRManager {
         this.renderer.setAnimationLoop(this.render.bind(this));
     }
 
-    private render(_timestamp: number, frame: any) {
+    private render(timestamp: number, frame: any) {
+        const deltaSeconds = this.lastFrameTimestamp !== null ? (timestamp - this.lastFrameTimestamp) / 1000 : 0;
+        this.lastFrameTimestamp = timestamp;
+        if (this.isInlineMode) this.inlineControls.update(deltaSeconds);
+
         if (frame) {
             const referenceSpace = this.renderer.xr.getReferenceSpace();
-            const session = this.renderer.xr.getSession() as any;
-
-            if (this.hitTestSourceRequested === false && session) {
-                // Mark as requested immediately to avoid re-requesting each frame on failures (prevents TypeError spam).
-                this.hitTestSourceRequested = true;
-                session
-                    .requestReferenceSpace('viewer')
-                    .then((viewerSpace: any) => session.requestHitTestSource({ space: viewerSpace }))
-                    .then((source: any) => {
-                        this.hitTestSource = source;
-                    })
-                    .catch((err: unknown) => {
-                        console.warn('[XRManager] Hit-test init failed (continuing without reticle):', err);
-                        this.hitTestSource = null;
-                    });
-
-                session.addEventListener('end', () => {
-                    this.hitTestSourceRequested = false;
-                    this.hitTestSource = null;
-                });
-            }
 
-            if (this.hitTestSource && referenceSpace && typeof frame.getHitTestResults === 'function') {
-                const hitTestResults = frame.getHitTestResults(this.hitTestSource);
-
-                if (hitTestResults.length > 0) {
-                    const hit = hitTestResults[0];
-                    const pose = hit.getPose(referenceSpace);
-                    
-                    if (pose) {
-                        // this.reticle.visible = true;
-                        // this.reticle.matrix.fromArray(pose.transform.matrix);
-                        
-                        // Auto-place if not yet placed
-                        if (!this.hasPlaced) {
-                            this.hasPlaced = true;
-                            const position = new THREE.Vector3();
-                            // Use the hit test pose directly for placement, no need for reticle
-                            const matrix = new THREE.Matrix4().fromArray(pose.transform.matrix);
-                            position.setFromMatrixPosition(matrix);
-                            
-                            this.portalSystem.place(position, this.camera);
-                        }
-                    }
-                }
-            }
+            this.placement.update(frame, referenceSpace);
+            this.anchors.update(frame, referenceSpace);
         }
 
         // In WebXR, `this.camera` (the base camera) does NOT reliably track the XR viewer pose.
         // Use the XR camera (ArrayCamera) so portal inside/outside logic works correctly.
         // In this three.js version, getCamera() takes no args and returns the XR ArrayCamera.
-        const xrCamera = this.renderer.xr.getCamera() as unknown as THREE.Camera;
-        this.portalSystem.update(xrCamera);
+        // Outside a session (inline preview) the base camera is the viewer.
+        const viewer = this.getViewer();
+        this.portals.update(viewer, deltaSeconds);
+        this.sceneActions.update(deltaSeconds, this.renderer.xr.isPresenting || this.isInlineMode);
         this.renderer.render(this.scene, this.camera);
+        this.capture.afterRender(frame);
+        // After render: the viewer's and the emitters' world matrices are current for this frame.
+        this.audio.update(viewer);
+        this.diagnostics?.frame(deltaSeconds);
+    }
+
+    private getViewer(): THREE.Camera {
+        return this.renderer.xr.isPresenting ? (this.renderer.xr.getCamera() as unknown as THREE.Camera) : this.camera;
     }
 
     public getReticle(): THREE.Mesh {
@@ -1,10 +1,30 @@
 import { XRManager } from './XRManager';
-import VConsole from 'vconsole';
+import { loadSceneCatalog } from './SceneCatalog';
+import {
+    localizeSceneCards,
+    localizeSceneSelector,
+    renderCatalogError,
+    renderSceneCards,
+    renderSceneSelector,
+} from './SceneCatalogView';
+import { registerServiceWorker } from './OfflineStore';
+import { OfflinePanel } from './OfflinePanel';
+import { LOCALE_NAMES, SUPPORTED_LOCALES, applyTranslations, getLocale, onLocaleChange, parseLocale, setLocale } from './I18n';
+import { createLogger, isDebugEnabled } from './Logger';
 
-// Initialize vConsole for mobile debugging
-const vConsole = new VConsole();
-console.log('vConsole initialized version:', vConsole.version);
-console.log('[Build]', __BUILD_ID__);
+const log = createLogger('Boot');
+
+// vConsole (mobile devtools) only when debugging (`?debug=1`); it stays out of the main bundle otherwise.
+if (isDebugEnabled()) {
+    void import('vconsole').then(({ default: VConsole }) => {
+        const vConsole = new VConsole();
+        log.info(`vConsole ${vConsole.version}`);
+    });
+}
+log.info(`Build ${__BUILD_ID__}`);
+// Uncaught errors also go into the log buffer, so they end up in the debug bundle.
+window.addEventListener('error', (event) => log.error('Uncaught error:', event.error ?? event.message));
+window.addEventListener('unhandledrejection', (event) => log.error('Unhandled rejection:', event.reason));
 // @ts-ignore
 window.__buildId = __BUILD_ID__;
 
@@ -179,6 +199,98 @@ style.textContent = `
         filter: brightness(0.96);
     }
 
+    /* Offline mode */
+    .scene-card__offline {
+        position: absolute;
+        top: 14px;
+        right: 14px;
+        z-index: 3;
+        height: 32px;
+        padding: 0 12px;
+        border-radius: 999px;
+        border: 1px solid rgba(255,255,255,0.18);
+        background: rgba(0,0,0,0.45);
+        color: #fff;
+        font-size: 12px;
+        font-weight: 800;
+        backdrop-filter: blur(10px);
+        cursor: pointer;
+    }
+    .scene-card__offline[data-state="saved"] {
+        background: rgba(238,220,154,0.92);
+        color: #161616;
+    }
+    .ui-topbar__actions {
+        position: absolute;
+        right: 16px;
+        top: 18px;
+        display: flex;
+        gap: 8px;
+    }
+    .ui-storage-btn,
+    .ui-lang {
+        height: 30px;
+        padding: 0 12px;
+        border-radius: 999px;
+        border: 1px solid rgba(255,255,255,0.16);
+        background: rgba(255,255,255,0.08);
+        color: #fff;
+        font-size: 12px;
+        font-weight: 800;
+        cursor: pointer;
+    }
+    .ui-lang {
+        appearance: none;
+        -webkit-appearance: none;
+    }
+    .ui-lang option {
+        color: #111;
+    }
+    #storage-panel {
+        margin: 0 16px;
+        padding: 12px 14px;
+        border-radius: 18px;
+        background: rgba(0,0,0,0.62);
+        border: 1px solid rgba(255,255,255,0.12);
+        backdrop-filter: blur(12px);
+        color: #fff;
+        font-size: 13px;
+    }
+    .storage-panel__summary,
+    .storage-panel__empty {
+        color: rgba(255,255,255,0.72);
+        font-size: 12px;
+        margin-bottom: 8px;
+    }
+    .storage-panel__row {
+        display: grid;
+        grid-template-columns: 1fr auto auto;
+        align-items: center;
+        gap: 10px;
+        padding: 6px 0;
+        border-top: 1px solid rgba(255,255,255,0.08);
+    }
+    .storage-panel__size {
+        color: rgba(255,255,255,0.72);
+        font-variant-numeric: tabular-nums;
+    }
+    .storage-panel__remove,
+    .storage-panel__clear {
+        height: 30px;
+        padding: 0 12px;
+        border-radius: 999px;
+        border: none;
+        background: #EEDC9A;
+        color: #161616;
+        font-weight: 800;
+        cursor: pointer;
+    }
+    .storage-panel__clear {
+        margin-top: 8px;
+        width: 100%;
+    }
+    .storage-panel__clear:disabled { opacity: 0.4; }
+
     /* Loading Screen */
     #loading-screen {
         position: absolute;
@@ -228,6 +340,40 @@ style.textContent = `
         font-size: 12px;
         margin-top: 6px;
     }
+    .loading-progress {
+        margin-top: 12px;
+    }
+    .loading-progress__track {
+        position: relative;
+        height: 8px;
+        border-radius: 999px;
+        overflow: hidden;
+        background: rgba(255,255,255,0.14);
+    }
+    .loading-progress__bar {
+        height: 100%;
+        width: 0%;
+        border-radius: 999px;
+        background: #EEDC9A;
+        transition: width 120ms linear;
+    }
+    .loading-progress.is-indeterminate .loading-progress__bar {
+        width: 35%;
+        animation: loading-progress-slide 1.1s ease-in-out infinite;
+    }
+    @keyframes loading-progress-slide {
+        0% { transform: translateX(-100%); }
+        100% { transform: translateX(290%); }
+    }
+    .loading-progress__stats {
+        display: flex;
+        justify-content: space-between;
+        gap: 10px;
+        margin-top: 8px;
+        color: rgba(255,255,255,0.78);
+        font-size: 12px;
+        font-variant-numeric: tabular-nums;
+    }
 
     /* AR UI */
     #ui-container {
@@ -236,6 +382,47 @@ style.textContent = `
         left: 20px;
         pointer-events: auto;
     }
+    .portal-btn {
+        margin-top: 10px;
+        padding: 10px 14px;
+        font-size: 14px;
+        border-radius: 8px;
+        border: 1px solid #ccc;
+        background: rgba(255, 255, 255, 0.9);
+        color: #111;
+    }
+    .portal-btn.is-highlighted {
+        border-color: #ffb020;
+        box-shadow: 0 0 0 3px rgba(255, 176, 32, 0.45);
+    }
+    .portal-btn.is-recording {
+        background: #e5484d;
+        border-color: #e5484d;
+        color: #fff;
+    }
+
+    /* Diagnostics (?debug=1), above every screen */
+    #diagnostics {
+        position: absolute;
+        top: env(safe-area-inset-top, 0px);
+        left: 8px;
+        z-index: 5000;
+        pointer-events: auto;
+        padding: 6px 8px;
+        border-radius: 8px;
+        background: rgba(0, 0, 0, 0.6);
+        color: #9effa8;
+    }
+    #diagnostics-stats {
+        margin: 0;
+        font: 11px/1.4 ui-monospace, Menlo, Consolas, monospace;
+        white-space: pre;
+    }
+    #diagnostics .portal-btn {
+        margin-top: 6px;
+        padding: 6px 10px;
+        font-size: 12px;
+    }
     #scene-selector {
         padding: 10px;
         font-size: 16px;
@@ -290,17 +477,84 @@ style.textContent = `
         cursor: pointer;
     }
     .prompt-card__btn:active { filter: brightness(0.96); }
+    .prompt-card__btn--secondary {
+        margin-top: 10px;
+        background: rgba(255,255,255,0.12);
+        color: #fff;
+        border: 1px solid rgba(255,255,255,0.18);
+    }
+
+    /* Inline (non-AR) preview */
+    #inline-hint, #placement-hint {
+        position: absolute;
+        left: 50%;
+        top: 20px;
+        transform: translateX(-50%);
+        padding: 8px 14px;
+        border-radius: 999px;
+        background: rgba(0,0,0,0.5);
+        color: rgba(255,255,255,0.85);
+        font-size: 12px;
+        white-space: nowrap;
+    }
+    #placement-hint {
+        top: auto;
+        bottom: 40px;
+    }
+    #inline-joystick {
+        position: absolute;
+        left: 28px;
+        bottom: 36px;
+        width: 120px;
+        height: 120px;
+        border-radius: 50%;
+        background: rgba(255,255,255,0.10);
+        border: 1px solid rgba(255,255,255,0.22);
+        pointer-events: auto;
+        touch-action: none;
+    }
+    .inline-joystick__knob {
+        position: absolute;
+        left: 36px;
+        top: 36px;
+        width: 48px;
+        height: 48px;
+        border-radius: 50%;
+        background: rgba(238,220,154,0.9);
+        pointer-events: none;
+    }
     .prompt-card__error {
         margin-top: 10px;
         font-size: 12px;
         color: rgba(255,255,255,0.85);
         white-space: pre-line;
     }
+
+    /* Scene catalog errors (manifest failed to load / validate) */
+    .catalog-error {
+        margin: 24px 16px;
+        padding: 16px 18px;
+        border-radius: 18px;
+        background: rgba(120,0,0,0.35);
+        border: 1px solid rgba(255,120,120,0.35);
+        color: #fff;
+    }
+    .catalog-error__title {
+        font-size: 18px;
+        font-weight: 900;
+        margin-bottom: 8px;
+    }
+    .catalog-error__details {
+        margin: 0;
+        font-size: 12px;
+        color: rgba(255,255,255,0.85);
+        white-space: pre-wrap;
+        word-break: break-word;
+    }
 `;
 document.head.appendChild(style);
 
-const carousel = document.getElementById('scene-carousel');
-if (carousel) {
+const setupCarousel = (carousel: HTMLElement, onActiveCard: (sceneKey: string) => void) => {
     const cards = Array.from(carousel.querySelectorAll('.scene-card'));
     const observer = new IntersectionObserver(
         (entries) => {
@@ -309,12 +563,63 @@ if (carousel) {
                 const el = entry.target as HTMLElement;
                 cards.forEach(c => c.classList.remove('is-active'));
                 el.classList.add('is-active');
+                if (el.dataset.scene) onActiveCard(el.dataset.scene);
             }
         },
         { root: carousel, threshold: 0.62 }
     );
     cards.forEach(c => observer.observe(c));
-}
+};
+
+const setupLanguageSelector = (selector: HTMLSelectElement) => {
+    selector.replaceChildren(
+        ...SUPPORTED_LOCALES.map((locale) => {
+            const option = document.createElement('option');
+            option.value = locale;
+            option.textContent = LOCALE_NAMES[locale];
+            return option;
+        })
+    );
+    selector.value = getLocale();
+    selector.addEventListener('change', () => {
+        const locale = parseLocale(selector.value);
+        if (locale) setLocale(locale);
+    });
+};
+
+const bootstrap = async () => {
+    // Offline support: app shell, door GLB and user-saved scenes (see public/sw.js).
+    void registerServiceWorker();
+
+    // Markup ships in English; switch it to the detected locale before anything is shown.
+    applyTranslations();
+    const langSelector = document.getElementById('lang-selector') as HTMLSelectElement | null;
+    if (langSelector) setupLanguageSelector(langSelector);
+
+    const carousel = document.getElementById('scene-carousel');
+    const sceneSelector = document.getElementById('scene-selector') as HTMLSelectElement | null;
+
+    let catalog;
+    try {
+        catalog = await loadSceneCatalog();
+    } catch (err) {
+        log.error('Scene catalog unavailable:', err);
+        if (carousel) renderCatalogError(carousel, err);
+        return;
+    }
+
+    if (carousel) renderSceneCards(carousel, catalog);
+    if (sceneSelector) renderSceneSelector(sceneSelector, catalog);
+    // Manifest text follows the language switch too.
+    onLocaleChange(() => {
+        if (carousel) localizeSceneCards(carousel, catalog);
+        if (sceneSelector) localizeSceneSelector(sceneSelector, catalog);
+    });
+    new OfflinePanel(catalog).init();
+
+    const app = new XRManager(catalog);
+    if (carousel) setupCarousel(carousel, (sceneKey) => app.preloadAround(sceneKey));
+    app.start();
+};
 
-const app = new XRManager();
-app.start();
+void bootstrap();
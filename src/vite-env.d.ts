@@ -6,6 +6,36 @@ interface ImportMetaEnv {
     readonly VITE_ASSETS_URL: string;
     readonly VITE_SPLAT_URL: string;
     readonly VITE_DOOR_URL: string;
+    readonly VITE_SCENES_URL?: string;
+    readonly VITE_SPLAT_CACHE_MB?: string;
+    // Watermark logo drawn on captured photos / clips (optional, needs CORS).
+    readonly VITE_CAPTURE_LOGO_URL?: string;
+    // Portal tuning defaults (see src/PortalConfig.ts); URL params and scene overrides take precedence.
+    readonly VITE_PORTAL_OPENING_WIDTH?: string;
+    readonly VITE_PORTAL_OPENING_HEIGHT?: string;
+    readonly VITE_PORTAL_OPENING_CENTER_X?: string;
+    readonly VITE_PORTAL_OPENING_BOTTOM_Y?: string;
+    readonly VITE_PORTAL_OPENING_SCALE?: string;
+    readonly VITE_PORTAL_OPENING_OFFSET_X?: string;
+    readonly VITE_PORTAL_OPENING_SHAPE?: string;
+    readonly VITE_PORTAL_ANCHOR?: string;
+    readonly VITE_PORTAL_FIT_PADDING?: string;
+    readonly VITE_PORTAL_BOUNDS_PERCENTILE?: string;
+    readonly VITE_PORTAL_CROP?: string;
+    readonly VITE_PORTAL_CONTENT_MODE?: string;
+    readonly VITE_PORTAL_UP_AXIS?: string;
+    readonly VITE_PORTAL_YAW_OFFSET_DEG?: string;
+    readonly VITE_PORTAL_WALK_IN_SCALE?: string;
+    readonly VITE_PORTAL_SPAWN_POINT?: string;
+    readonly VITE_PORTAL_DOOR_OPEN_DISTANCE?: string;
+    readonly VITE_PORTAL_DOOR_CLOSE_DISTANCE?: string;
+    readonly VITE_PORTAL_DOOR_FACING_ANGLE_DEG?: string;
+    readonly VITE_PORTAL_DOOR_OPEN_CLIP?: string;
+    readonly VITE_PORTAL_DOOR_CLOSE_CLIP?: string;
+    readonly VITE_PORTAL_DOOR_IDLE_CLIP?: string;
+    readonly VITE_PORTAL_VIEWER_BEHIND_DOOR_Z?: string;
+    readonly VITE_PORTAL_OUTSIDE_THRESHOLD_Z?: string;
+    readonly VITE_PORTAL_INSIDE_THRESHOLD_Z?: string;
 }
 
 interface ImportMeta {
@@ -33,10 +63,24 @@ declare module '@mkkellogg/gaussian-splats-3d' {
         ): void;
     }
 
+    export class AbortablePromise<T = any> {
+        then(onResolve: (value: T) => any): AbortablePromise<any>;
+        catch(onFail: (error: unknown) => any): AbortablePromise<any>;
+        abort(reason?: unknown): void;
+    }
+
+    export const SceneFormat: {
+        readonly Splat: 0;
+        readonly KSplat: 1;
+        readonly Ply: 2;
+        readonly Spz: 3;
+    };
+
     export class DropInViewer extends THREE.Group {
         constructor(options?: any);
-        addSplatScene(path: string, options?: any): Promise<void>;
+        addSplatScene(path: string, options?: any): AbortablePromise<void>;
         getSplatScene(index: number): any;
+        dispose(): Promise<void>;
         splatMesh: THREE.Mesh | null;
     }
     
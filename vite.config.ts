@@ -1,5 +1,32 @@
 import { defineConfig, loadEnv } from 'vite';
+import type { Plugin } from 'vite';
 import basicSsl from '@vitejs/plugin-basic-ssl';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { resolveDoorUrl } from './src/DoorUrl';
+
+// Fills the precache lists in the copied dist/sw.js (see public/sw.js) with this build's output and the
+// door GLB, and versions the shell cache by build id so an update replaces the old chunks.
+function swPrecache(buildId: string, doorUrl: string): Plugin {
+  return {
+    name: 'sw-precache',
+    apply: 'build',
+    writeBundle(options, bundle) {
+      const swPath = `${options.dir ?? 'dist'}/sw.js`;
+      const shellUrls = Object.keys(bundle)
+        .filter((file) => !file.endsWith('.html') && !file.endsWith('.map'))
+        .map((file) => `./${file}`);
+      let source = readFileSync(swPath, 'utf8');
+      const fill = (placeholder: string, value: string) => {
+        if (!source.includes(placeholder)) throw new Error(`sw-precache: "${placeholder}" not found in ${swPath}`);
+        source = source.replace(placeholder, value);
+      };
+      fill("const SHELL_VERSION = 'v1';", `const SHELL_VERSION = ${JSON.stringify(buildId)};`);
+      fill('const BUILD_SHELL_URLS = [];', `const BUILD_SHELL_URLS = ${JSON.stringify(shellUrls)};`);
+      fill('const BUILD_ASSET_URLS = [];', `const BUILD_ASSET_URLS = ${JSON.stringify([doorUrl])};`);
+      writeFileSync(swPath, source);
+    },
+  };
+}
 
 export default defineConfig(({ command, mode }) => {
   // NOTE:
@@ -15,7 +42,7 @@ export default defineConfig(({ command, mode }) => {
     `${Date.now()}`;
   
   return {
-    plugins: command === 'serve' ? [basicSsl()] : [],
+    plugins: command === 'serve' ? [basicSsl()] : [swPrecache(buildId, resolveDoorUrl(env))],
     define: {
       __BUILD_ID__: JSON.stringify(buildId),
     },